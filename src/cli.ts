@@ -0,0 +1,353 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { MarkerFormatter, OutputFormat } from './services/marker-formatter';
+import { Timecode } from './services/timecode';
+import { LabelRules } from './services/label-rules';
+import { ConversionResult } from './services/marker-converter';
+import { ProcessOptions, WavProcessor } from './services/wav-processor';
+import { RecordingSession, RecordingSessions } from './services/recording-session';
+import { BwfReader } from './services/bwf-reader';
+import { FolderWatcher } from './services/folder-watcher';
+import { ExtractionError } from './services/errors';
+import { Logger } from './services/logger';
+
+interface CliOptions {
+    inputs: string[];
+    outputDir: string | null;
+    format: OutputFormat;
+    timecode?: string;
+    timecodeStyle?: string;
+    frameRate?: string;
+    labelPreset?: string;
+    labelTemplate?: string;
+    dropPattern?: string;
+    mergeWithinMs?: string;
+    offsetMs?: string;
+    presetsFile?: string;
+    bwfMetaEditFallback: boolean;
+    genericDetection: boolean;
+    session: boolean;
+    dryRun: boolean;
+    verbose: boolean;
+    watch: boolean;
+    stateFile: string;
+}
+
+interface WavInput {
+    filePath: string;
+    // Directory the file was found under, used to mirror the tree in --output-dir
+    root: string;
+}
+
+const USAGE = `Usage: bwf-markers [options] <file-or-directory...>
+
+Extracts BWF markers from WAV files, walking directories recursively.
+
+Options:
+  -o, --output-dir <dir>        Write label files into <dir> (mirroring the input tree)
+                                instead of next to each WAV file
+  -f, --format <format>         Output format: ${MarkerFormatter.outputFormats.join(', ')}
+                                (default: audacity)
+      --timecode <mode>         none, shift or prefix (default: none)
+      --timecode-style <style>  time-of-day or smpte (default: time-of-day)
+      --frame-rate <rate>       ${Timecode.rates.join(', ')} (default: from iXML, else 25)
+      --preset <name>           Apply a named label preset: ${LabelRules.presetNames.join(', ')}
+      --presets-file <file>     Load additional label presets from a JSON file
+      --label-template <text>   Rewrite labels, e.g. "{n} {original}"; placeholders
+                                {n}, {time}, {timecode}, {file}, {original}
+      --drop <regex>            Remove markers whose label matches
+      --merge-ms <ms>           Merge markers closer than <ms> to the previous one
+      --offset-ms <ms>          Move every marker by <ms> (may be negative)
+      --bwfmetaedit             Fall back to bwfmetaedit for files without cue markers
+      --no-generic              Fail instead of guessing markers in unrecognized
+                                bwfmetaedit XML
+  -s, --session                 Merge split and multitrack recordings in the same
+                                directory into one label file per recording
+  -w, --watch                   Keep running and process new WAV files in the given
+                                directories once they have finished copying
+      --state-file <file>       State file for --watch (default: watch-state.json)
+  -n, --dry-run                 Show what would be written without writing anything
+  -v, --verbose                 Print extraction details
+  -h, --help                    Show this help
+`;
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        inputs: [],
+        outputDir: null,
+        format: 'audacity',
+        bwfMetaEditFallback: false,
+        genericDetection: true,
+        session: false,
+        dryRun: false,
+        verbose: false,
+        watch: false,
+        stateFile: 'watch-state.json'
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            const next = argv[++i];
+            if (next === undefined) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            return next;
+        };
+
+        switch (arg) {
+            case '-o':
+            case '--output-dir':
+                options.outputDir = value();
+                break;
+            case '-f':
+            case '--format': {
+                const format = value();
+                if (!MarkerFormatter.isOutputFormat(format)) {
+                    throw new Error(`Unsupported output format "${format}". Use one of: ${MarkerFormatter.outputFormats.join(', ')}`);
+                }
+                options.format = format;
+                break;
+            }
+            case '--timecode':
+                options.timecode = value();
+                break;
+            case '--timecode-style':
+                options.timecodeStyle = value();
+                break;
+            case '--frame-rate':
+                options.frameRate = value();
+                break;
+            case '--preset':
+                options.labelPreset = value();
+                break;
+            case '--presets-file':
+                options.presetsFile = value();
+                break;
+            case '--label-template':
+                options.labelTemplate = value();
+                break;
+            case '--drop':
+                options.dropPattern = value();
+                break;
+            case '--merge-ms':
+                options.mergeWithinMs = value();
+                break;
+            case '--offset-ms':
+                options.offsetMs = value();
+                break;
+            case '--bwfmetaedit':
+                options.bwfMetaEditFallback = true;
+                break;
+            case '--no-generic':
+                options.genericDetection = false;
+                break;
+            case '-s':
+            case '--session':
+                options.session = true;
+                break;
+            case '-n':
+            case '--dry-run':
+                options.dryRun = true;
+                break;
+            case '-w':
+            case '--watch':
+                options.watch = true;
+                break;
+            case '--state-file':
+                options.stateFile = value();
+                break;
+            case '-v':
+            case '--verbose':
+                options.verbose = true;
+                break;
+            case '-h':
+            case '--help':
+                process.stdout.write(USAGE);
+                process.exit(0);
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new Error(`Unknown option ${arg}`);
+                }
+                options.inputs.push(arg);
+        }
+    }
+
+    if (options.inputs.length === 0) {
+        throw new Error('No input files or directories given');
+    }
+
+    if (options.watch && (options.outputDir || options.dryRun)) {
+        throw new Error('--watch always writes next to each WAV file and cannot be combined with --output-dir or --dry-run');
+    }
+
+    if (options.watch && options.session) {
+        throw new Error('--session cannot be combined with --watch');
+    }
+
+    return options;
+}
+
+function collectWavFiles(inputs: string[]): WavInput[] {
+    const wavFiles: WavInput[] = [];
+
+    const walk = (dir: string, root: string) => {
+        const entries = fs.readdirSync(dir, { withFileTypes: true })
+            .sort((a, b) => a.name.localeCompare(b.name));
+
+        for (const entry of entries) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                walk(entryPath, root);
+            } else if (entry.isFile() && isWavFile(entry.name)) {
+                wavFiles.push({ filePath: entryPath, root });
+            }
+        }
+    };
+
+    for (const input of inputs) {
+        const stat = fs.statSync(input);
+        if (stat.isDirectory()) {
+            walk(input, input);
+        } else {
+            wavFiles.push({ filePath: input, root: path.dirname(input) });
+        }
+    }
+
+    return wavFiles;
+}
+
+/**
+ * Groups the files of each directory into recording sessions; files in
+ * different directories never belong to the same recording.
+ */
+async function collectSessions(wavFiles: WavInput[]): Promise<(WavInput & { session: RecordingSession })[]> {
+    const byDirectory = new Map<string, WavInput[]>();
+    for (const input of wavFiles) {
+        const directory = path.dirname(input.filePath);
+        byDirectory.set(directory, [...(byDirectory.get(directory) || []), input]);
+    }
+
+    const units: (WavInput & { session: RecordingSession })[] = [];
+
+    for (const inputs of byDirectory.values()) {
+        const files = await Promise.all(inputs.map(async ({ filePath }) => ({
+            filePath,
+            originalFileName: path.basename(filePath),
+            metadata: await BwfReader.readFile(filePath).catch(() => null)
+        })));
+
+        for (const session of RecordingSessions.group(files)) {
+            const first = session.segments[0].files[0];
+            units.push({ filePath: first.filePath, root: inputs[0].root, session });
+        }
+    }
+
+    return units;
+}
+
+function isWavFile(name: string): boolean {
+    // Skip macOS resource fork files that SD card dumps often contain
+    return name.toLowerCase().endsWith('.wav') && !name.startsWith('._');
+}
+
+async function main(): Promise<number> {
+    let options: CliOptions;
+    let processOptions: ProcessOptions;
+    let wavFiles: WavInput[];
+
+    try {
+        options = parseArgs(process.argv.slice(2));
+        const presetsFile = options.presetsFile || process.env.LABEL_PRESETS_FILE;
+        if (presetsFile) {
+            LabelRules.loadPresets(presetsFile);
+        }
+
+        processOptions = {
+            format: options.format,
+            timecode: Timecode.parseOptions(options.timecode, options.timecodeStyle, options.frameRate),
+            labelRules: LabelRules.parseOptions(options.labelPreset, {
+                template: options.labelTemplate,
+                dropPattern: options.dropPattern,
+                mergeWithinMs: options.mergeWithinMs,
+                offsetMs: options.offsetMs
+            }),
+            bwfMetaEditFallback: options.bwfMetaEditFallback,
+            genericDetection: options.genericDetection,
+            dryRun: options.dryRun,
+            log: options.verbose ? console.log : undefined
+        };
+        wavFiles = collectWavFiles(options.inputs);
+    } catch (error) {
+        process.stderr.write(`bwf-markers: ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return 2;
+    }
+
+    if (options.watch) {
+        const watcher = new FolderWatcher({
+            ...processOptions,
+            directories: options.inputs,
+            stateFile: options.stateFile,
+            intervalMs: 10000,
+            settleMs: 5000,
+            logger: new Logger(options.verbose ? 'debug' : 'info', 'text')
+        });
+
+        watcher.start();
+        process.on('SIGINT', () => watcher.stop());
+        process.on('SIGTERM', () => watcher.stop());
+
+        // Runs until stopped; the exit code is only set once the timers are gone
+        return 0;
+    }
+
+    let failed = 0;
+    const units = options.session ? await collectSessions(wavFiles) : wavFiles.map(input => ({ ...input, session: null }));
+
+    for (const { filePath, root, session } of units) {
+        const outputDir = options.outputDir
+            ? path.join(options.outputDir, path.relative(root, path.dirname(filePath)))
+            : path.dirname(filePath);
+        const name = session && session.segments.flatMap(segment => segment.files).length > 1
+            ? path.join(path.dirname(filePath), session.name)
+            : filePath;
+
+        try {
+            const result: ConversionResult = session
+                ? await WavProcessor.processSession(session, { ...processOptions, outputDir })
+                : await WavProcessor.process(filePath, path.basename(filePath), { ...processOptions, outputDir });
+            const action = options.dryRun ? 'would write' : 'wrote';
+
+            process.stdout.write(`OK    ${name}: ${result.markerCount} markers, ${action} ${result.outputFilePath}\n`);
+            if (options.verbose) {
+                const supplements = result.detection.supplements.map(name => ` + ${name}`).join('');
+                process.stdout.write(`      detector: ${result.detection.detector} (confidence ${result.detection.confidence.toFixed(2)})${supplements}\n`);
+                for (const file of session && name !== filePath ? session.segments.flatMap(segment => segment.files) : []) {
+                    process.stdout.write(`      file: ${file.originalFileName}\n`);
+                }
+            }
+            for (const warning of result.warnings) {
+                process.stdout.write(`      warning: ${warning}\n`);
+            }
+        } catch (error) {
+            const extractionError = ExtractionError.from(error);
+
+            failed++;
+            process.stdout.write(`FAIL  ${name}: ${extractionError.message} (${extractionError.code})\n`);
+            if (options.verbose && Object.keys(extractionError.details).length > 0) {
+                process.stderr.write(`      ${JSON.stringify(extractionError.details)}\n`);
+            }
+        }
+    }
+
+    const noun = options.session ? 'recordings' : 'files';
+    process.stdout.write(`\n${units.length} ${noun}, ${units.length - failed} converted, ${failed} failed${options.dryRun ? ' (dry run)' : ''}\n`);
+
+    return failed > 0 ? 1 : 0;
+}
+
+main().then(code => {
+    process.exitCode = code;
+});
@@ -0,0 +1,35 @@
+import { Readable } from 'stream';
+import { Marker } from './services/marker-converter';
+import { ExtractOptions, ExtractResult, FormatMarkersOptions, MarkerExtractor } from './services/marker-extractor';
+import { OutputFormat } from './services/marker-formatter';
+
+/**
+ * Library API for using the extractor in-process. It works on buffers and
+ * streams only: nothing is read from or written to disk, and nothing is
+ * logged unless a `log` function is passed.
+ *
+ *     const { markers, duration } = await extractMarkers(fs.createReadStream('ZOOM0001.WAV'));
+ *     const chapters = formatMarkers(markers, 'podcast-chapters', { duration });
+ */
+
+/**
+ * Reads the markers of a WAV, RF64 or BW64 file. A stream is read once and
+ * its audio skipped, so large recordings do not need to fit in memory.
+ * Failures are thrown as ExtractionError, invalid rules as RequestError.
+ */
+export function extractMarkers(input: Buffer | Readable, options: ExtractOptions = {}): Promise<ExtractResult> {
+    return MarkerExtractor.extract(input, options);
+}
+
+export function formatMarkers(markers: Marker[], format: OutputFormat, options: FormatMarkersOptions = {}): string {
+    return MarkerExtractor.format(markers, format, options);
+}
+
+export { ExtractOptions, ExtractResult, FormatMarkersOptions } from './services/marker-extractor';
+export { Marker, DetectionSummary } from './services/marker-converter';
+export { MarkerFormatter, OutputFormat } from './services/marker-formatter';
+export { MarkerDetector, MarkerDetectors, DetectionContext, Detection, DetectionResult } from './services/marker-detectors';
+export { LabelRuleOptions, LabelRules } from './services/label-rules';
+export { Timecode, TimecodeOptions, TimecodeRate } from './services/timecode';
+export { BwfMetadata, BwfReader, WavFormat, BextInfo, CuePoint, SampleLoop } from './services/bwf-reader';
+export { ExtractionError, ExtractionErrorCode, RequestError, RequestErrorCode, ErrorBody } from './services/errors';
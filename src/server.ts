@@ -3,25 +3,140 @@ import multer from 'multer';
 import cors from 'cors';
 import path from 'path';
 import fs from 'fs';
-import { exec, execFile } from 'child_process';
-import { promisify } from 'util';
-import { MarkerConverter } from './services/marker-converter';
+import { createHash, timingSafeEqual } from 'crypto';
+import { extractMarkers, formatMarkers } from './index';
+import { ConversionResult, MarkerConverter } from './services/marker-converter';
+import { BwfReader } from './services/bwf-reader';
+import { BwfWriter } from './services/bwf-writer';
+import { MarkerFormatter } from './services/marker-formatter';
+import { Timecode, TimecodeOptions } from './services/timecode';
+import { LabelRuleOptions, LabelRules } from './services/label-rules';
+import { ProcessOptions, WavProcessor } from './services/wav-processor';
+import { RecordingSessions, SessionFile } from './services/recording-session';
+import { FolderWatcher } from './services/folder-watcher';
+import { FileJob, FileTask, Job, JobQueue } from './services/job-queue';
+import { ResultStore, StoredResult } from './services/result-store';
+import { ZipEntry, ZipWriter } from './services/zip-writer';
+import { PeakEnvelope } from './services/peak-envelope';
+import { HealthCheck } from './services/health-check';
+import { Logger } from './services/logger';
+import { METRICS_CONTENT_TYPE, MetricsRegistry } from './services/metrics';
+import { RateLimiter } from './services/rate-limiter';
+import { ExtractionError, RequestError } from './services/errors';
 
-const execAsync = promisify(exec);
-const execFileAsync = promisify(execFile);
 const app = express();
 const port = process.env.PORT || 3000;
+const maxFileSizeMb = parseInt(process.env.MAX_FILE_SIZE_MB || '100');
+// One JSON object per line by default; file names are only logged at debug level
+const logLevel = process.env.LOG_LEVEL || 'info';
+const logFormat = process.env.LOG_FORMAT || 'json';
+if (!Logger.isLogLevel(logLevel)) {
+    throw new Error(`Unsupported LOG_LEVEL. Use one of: ${Logger.levels.join(', ')}`);
+}
+if (!Logger.isLogFormat(logFormat)) {
+    throw new Error('Unsupported LOG_FORMAT. Use json or text');
+}
+const logger = new Logger(logLevel, logFormat);
+// Comma separated keys required by the upload and download routes; without any they are open
+const apiKeys = (process.env.API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+// Requests per minute and client IP, for all API routes and for uploads; 0 disables a limit
+const requestLimiter = createRateLimiter(process.env.RATE_LIMIT_PER_MINUTE, 300);
+const uploadLimiter = createRateLimiter(process.env.UPLOAD_RATE_LIMIT_PER_MINUTE, 20);
+// /healthz fails when the upload or result directory has less free space than this
+const minFreeMb = parseInt(process.env.HEALTH_MIN_FREE_MB || String(maxFileSizeMb));
+// Only shell out to bwfmetaedit when explicitly enabled and the native reader finds no cue markers
+const useBwfMetaEditFallback = process.env.BWFMETAEDIT_FALLBACK === 'true';
+// Whether the generic heuristic may guess markers in unknown bwfmetaedit XML; requests can turn it off
+const useGenericDetection = process.env.GENERIC_MARKER_DETECTION !== 'false';
+// Uploaded files are processed in the background, a few at a time
+const jobQueue = new JobQueue(
+    parseInt(process.env.MAX_CONCURRENT_EXTRACTIONS || '2'),
+    parseInt(process.env.JOB_RETENTION_MINUTES || '60') * 60 * 1000
+);
+// Every conversion gets its own unguessable directory below outputs/, removed after the TTL
+const resultTtlMs = parseInt(process.env.RESULT_TTL_MINUTES || '60') * 60 * 1000;
+const uploadDir = 'uploads';
+const outputDir = path.join(__dirname, '../outputs');
+const resultStore = new ResultStore(outputDir, resultTtlMs, logger);
+resultStore.startCleanup(Math.min(resultTtlMs, 5 * 60 * 1000));
+// Named label rule presets in addition to the built-in ones, usable with labelPreset
+if (process.env.LABEL_PRESETS_FILE) {
+    LabelRules.loadPresets(process.env.LABEL_PRESETS_FILE);
+}
+// Parsed markers of each result, served by /results/:id/markers
+const MARKERS_FILE = 'markers.json';
+// Waveform envelope of each result uploaded with waveform=true, served by /results/:id/peaks
+const PEAKS_FILE = 'peaks.json';
+
+// Conversions and requests since the server started, served by /metrics
+const metrics = new MetricsRegistry();
+const conversions = metrics.counter('bwf_conversions_total', 'Files and recording sessions converted');
+const conversionFailures = metrics.counter('bwf_conversion_failures_total', 'Failed conversions by error code', true);
+const conversionSeconds = metrics.histogram('bwf_conversion_duration_seconds', 'Processing time of a file or recording session',
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]);
+const httpRequests = metrics.counter('bwf_http_requests_total', 'HTTP requests by method, route and status', true);
+
+jobQueue.on('fileFinished', (job: Job, file: FileJob, durationMs: number) => {
+    conversionSeconds.observe(durationMs / 1000);
+
+    if (file.status === 'done') {
+        conversions.inc();
+        logger.info('Conversion finished', { jobId: job.id, file: loggedName(file.originalFile), durationMs, markerCount: file.markerCount });
+    } else {
+        conversionFailures.inc({ code: file.error?.code || 'PROCESSING_ERROR' });
+        logger.warn('Conversion failed', { jobId: job.id, file: loggedName(file.originalFile), durationMs, code: file.error?.code });
+    }
+});
+
+// Behind a reverse proxy, e.g. TRUST_PROXY=1, so that rate limits and logs see the client's IP
+if (process.env.TRUST_PROXY) {
+    app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+}
 
 // Middleware
-app.use(cors());
+app.use((req, res, next) => {
+    const started = Date.now();
+
+    res.on('finish', () => {
+        // The route pattern rather than the path, so IDs do not create a series each
+        const route = req.route ? `${req.baseUrl}${req.route.path}` : 'other';
+        httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+        logger.debug('Request', { method: req.method, route, status: res.statusCode, durationMs: Date.now() - started, ip: req.ip });
+    });
+    next();
+});
+// Comma separated origins that may call the API from other sites; without any every origin may
+app.use(cors(process.env.CORS_ORIGINS ? { origin: process.env.CORS_ORIGINS.split(',').map(origin => origin.trim()) } : {}));
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 app.use(express.static('public'));
 
+// Health of the toolchain and disk for load balancers and the Docker HEALTHCHECK; 503 when a check fails
+app.get('/healthz', async (req, res) => {
+    const report = await HealthCheck.run({
+        bwfMetaEdit: useBwfMetaEditFallback,
+        directories: { uploads: uploadDir, results: outputDir },
+        minFreeBytes: minFreeMb * 1024 * 1024
+    });
+
+    if (report.status !== 'ok') {
+        logger.warn('Health check failed', { checks: report.checks });
+    }
+    res.status(report.status === 'ok' ? 200 : 503).json(report);
+});
+
+// Static files and the health check are not counted against the request limit
+app.use(rateLimit(requestLimiter));
+
+// Prometheus metrics; behind the API key when one is configured
+app.get('/metrics', requireApiKey, (req, res) => {
+    res.set('Content-Type', METRICS_CONTENT_TYPE);
+    res.send(metrics.render());
+});
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
     destination: (req, file, cb) => {
-        const uploadDir = 'uploads';
         if (!fs.existsSync(uploadDir)) {
             fs.mkdirSync(uploadDir, { recursive: true });
         }
@@ -39,11 +154,10 @@ const storage = multer.diskStorage({
                 filename = Buffer.from(filename, 'latin1').toString('utf8');
             }
         } catch (error) {
-            console.log('Filename encoding fix failed, using original:', filename);
+            logger.debug('Filename encoding fix failed, using original', { file: filename });
         }
 
-        console.log('Original filename:', file.originalname);
-        console.log('Fixed filename:', filename);
+        logger.debug('Receiving upload', { file: file.originalname, fixedName: filename });
 
         cb(null, `${timestamp}-${filename}`);
     }
@@ -52,14 +166,21 @@ const storage = multer.diskStorage({
 const upload = multer({
     storage,
     fileFilter: (req, file, cb) => {
-        if (file.mimetype === 'audio/wav' || file.originalname.toLowerCase().endsWith('.wav')) {
+        if (file.fieldname === 'labelsFile') {
+            // Audacity label tracks for writing markers back into a WAV file
+            if (file.mimetype === 'text/plain' || file.originalname.toLowerCase().endsWith('.txt')) {
+                cb(null, true);
+            } else {
+                cb(new RequestError('UNSUPPORTED_FILE_TYPE', 'Only Audacity label files (.txt) are allowed', { field: file.fieldname, fileName: file.originalname }));
+            }
+        } else if (file.mimetype === 'audio/wav' || file.originalname.toLowerCase().endsWith('.wav')) {
             cb(null, true);
         } else {
-            cb(new Error('Only WAV files are allowed'));
+            cb(new RequestError('UNSUPPORTED_FILE_TYPE', 'Only WAV files are allowed', { field: file.fieldname, fileName: file.originalname }));
         }
     },
     limits: {
-        fileSize: parseInt(process.env.MAX_FILE_SIZE_MB || '100') * 1024 * 1024 // Configurable via env var, default 100MB
+        fileSize: maxFileSizeMb * 1024 * 1024 // Configurable via env var, default 100MB
     }
 });
 
@@ -68,149 +189,585 @@ app.get('/', (req, res) => {
     res.sendFile(path.join(__dirname, '../public/index.html'));
 });
 
-app.post('/upload', upload.array('wavFiles'), async (req, res) => {
+// wavSkeletons are WAV files without the body of their data chunk, built by the browser for large recordings
+app.post('/upload', requireApiKey, rateLimit(uploadLimiter), upload.fields([{ name: 'wavFiles' }, { name: 'wavSkeletons' }]), async (req, res) => {
     try {
-        if (!req.files || req.files.length === 0) {
-            return res.status(400).json({ error: 'No WAV files uploaded' });
+        const uploaded = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+        const files = [...(uploaded?.wavFiles || []), ...(uploaded?.wavSkeletons || [])];
+
+        if (files.length === 0) {
+            return sendError(res, new RequestError('NO_FILES', 'No WAV files uploaded', { fields: ['wavFiles', 'wavSkeletons'] }));
         }
 
-        const files = req.files as Express.Multer.File[];
-        const results = [];
+        const skeletons = new Set(uploaded?.wavSkeletons || []);
+        const format = req.body.format || 'audacity';
 
-        for (const file of files) {
-            // Fix the filename encoding for display
-            let correctedFilename = file.originalname;
-            try {
-                if (correctedFilename.includes('Ã')) {
-                    correctedFilename = Buffer.from(correctedFilename, 'latin1').toString('utf8');
-                }
-            } catch (error) {
-                console.log('Filename encoding fix failed for display, using original:', correctedFilename);
+        if (!MarkerFormatter.isOutputFormat(format)) {
+            files.forEach(file => fs.unlinkSync(file.path));
+            return sendError(res, new RequestError('INVALID_FORMAT', `Unsupported output format. Use one of: ${MarkerFormatter.outputFormats.join(', ')}`, {
+                field: 'format',
+                value: format,
+                allowed: MarkerFormatter.outputFormats
+            }));
+        }
+
+        let timecode: TimecodeOptions | undefined;
+        let labelRules: LabelRuleOptions | undefined;
+        try {
+            timecode = Timecode.parseOptions(req.body.timecode, req.body.timecodeStyle, req.body.frameRate);
+            labelRules = LabelRules.parseOptions(req.body.labelPreset, {
+                template: req.body.labelTemplate,
+                dropPattern: req.body.dropPattern,
+                mergeWithinMs: req.body.mergeWithinMs,
+                offsetMs: req.body.offsetMs
+            });
+        } catch (error) {
+            files.forEach(file => fs.unlinkSync(file.path));
+            if (error instanceof RequestError) {
+                return sendError(res, error);
             }
+            throw error;
+        }
 
-            try {
-                // Extract BWF metadata using bwfmetaedit
-                const xmlFile = await extractBwfMetadata(file.path);
+        const options: ProcessOptions = {
+            format,
+            timecode,
+            labelRules,
+            bwfMetaEditFallback: useBwfMetaEditFallback,
+            genericDetection: useGenericDetection && req.body.genericDetection !== 'false',
+            log: message => logger.debug(message)
+        };
+
+        // Session mode merges split and multitrack recordings into one output per recording
+        const tasks = req.body.session === 'true'
+            ? await sessionTasks(files, skeletons, options)
+            : files.map(file => fileTask(file, { ...options, audioOmitted: skeletons.has(file) }, req.body.waveform === 'true'));
+
+        const job = jobQueue.createJob(tasks);
+        logger.info('Job created', { jobId: job.id, files: files.length, session: req.body.session === 'true' });
+
+        // Scripts can keep the synchronous behaviour and get all results in one response
+        if (req.query.wait === 'true') {
+            const finished = await jobQueue.waitFor(job);
+            return res.json({ jobId: finished.id, zipUrl: `/jobs/${finished.id}/download`, results: finished.files });
+        }
+
+        res.status(202).json({
+            jobId: job.id,
+            statusUrl: `/jobs/${job.id}`,
+            eventsUrl: `/jobs/${job.id}/events`,
+            zipUrl: `/jobs/${job.id}/download`,
+            files: job.files
+        });
+    } catch (error) {
+        logger.error('Upload failed', { error });
+        sendError(res, internalError());
+    }
+});
 
-                // Convert XML to Audacity labels (use corrected filename for output naming)
-                const labelsFile = await MarkerConverter.convertXmlToLabels(xmlFile, correctedFilename);
+app.get('/jobs/:id', requireApiKey, (req, res) => {
+    const job = jobQueue.getJob(req.params.id);
+    if (!job) {
+        return sendError(res, jobNotFound(req.params.id));
+    }
 
-                results.push({
-                    originalFile: correctedFilename,
-                    labelsFile: path.basename(labelsFile),
-                    downloadUrl: `/download/${path.basename(labelsFile)}`
-                });
+    res.json(jobQueue.summarize(job));
+});
+
+// Server-sent events: a `job` event with the full job state on every change, then `done`
+app.get('/jobs/:id/events', requireApiKey, (req, res) => {
+    const job = jobQueue.getJob(req.params.id);
+    if (!job) {
+        return sendError(res, jobNotFound(req.params.id));
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+    });
 
-                // Clean up temporary XML file
-                fs.unlinkSync(xmlFile);
+    const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
 
+    const finish = () => {
+        send('done', jobQueue.summarize(job));
+        jobQueue.off('update', onUpdate);
+        res.end();
+    };
+
+    const onUpdate = (updated: Job) => {
+        if (updated.id !== job.id) return;
+
+        send('job', jobQueue.summarize(updated));
+        if (jobQueue.isFinished(updated)) {
+            finish();
+        }
+    };
+
+    send('job', jobQueue.summarize(job));
+    if (jobQueue.isFinished(job)) {
+        finish();
+        return;
+    }
+
+    jobQueue.on('update', onUpdate);
+    req.on('close', () => jobQueue.off('update', onUpdate));
+});
+
+// All finished label files of a job in one ZIP archive
+app.get('/jobs/:id/download', requireApiKey, (req, res) => {
+    const job = jobQueue.getJob(req.params.id);
+    if (!job) {
+        return sendError(res, jobNotFound(req.params.id));
+    }
+
+    const entries: ZipEntry[] = [];
+    const usedNames = new Set<string>();
+
+    for (const file of job.files) {
+        if (file.status !== 'done') continue;
+
+        const filePath = resultStore.resolve(String(file.resultId), String(file.labelsFile));
+        if (!filePath) continue;
+
+        // Two uploads with the same name would otherwise overwrite each other when unpacked
+        const extension = path.extname(String(file.labelsFile));
+        const baseName = path.basename(String(file.labelsFile), extension);
+        let name = `${baseName}${extension}`;
+        for (let n = 2; usedNames.has(name); n++) {
+            name = `${baseName} (${n})${extension}`;
+        }
+        usedNames.add(name);
+
+        entries.push({ name, data: fs.readFileSync(filePath) });
+    }
+
+    if (entries.length === 0) {
+        return sendError(res, new RequestError('NOT_FOUND', 'No results available for download', { jobId: job.id }, 404));
+    }
+
+    res.attachment('bwf-markers.zip');
+    res.type('application/zip');
+    res.send(ZipWriter.create(entries));
+});
+
+app.post('/write-markers', requireApiKey, rateLimit(uploadLimiter), upload.fields([{ name: 'wavFile', maxCount: 1 }, { name: 'labelsFile', maxCount: 1 }]), async (req, res) => {
+    const uploaded = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+    const wavFile = uploaded?.wavFile?.[0];
+    const labelsFile = uploaded?.labelsFile?.[0];
+
+    try {
+        if (!wavFile || !labelsFile) {
+            return sendError(res, new RequestError('NO_FILES', 'A WAV file and an Audacity label file are required', { fields: ['wavFile', 'labelsFile'] }));
+        }
+
+        const correctedFilename = fixFilenameEncoding(wavFile.originalname);
+
+        try {
+            const metadata = await BwfReader.readFile(wavFile.path);
+            if (!metadata.format || metadata.format.sampleRate === 0) {
+                throw new ExtractionError('MISSING_FORMAT');
+            }
+
+            const labelsContent = fs.readFileSync(labelsFile.path, 'utf8');
+            const totalSamples = MarkerConverter.audioDuration(metadata, undefined)?.samples ?? null;
+            const cuePoints = MarkerConverter.parseAudacityLabels(labelsContent, metadata.format.sampleRate, totalSamples);
+
+            const result = resultStore.create();
+            const baseName = path.basename(correctedFilename, path.extname(correctedFilename));
+            const outputFileName = `${baseName}_with_markers.wav`;
+
+            try {
+                await BwfWriter.writeMarkers(wavFile.path, path.join(result.directory, outputFileName), cuePoints);
             } catch (error) {
-                console.error(`Error processing ${correctedFilename}:`, error);
-
-                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                let userFriendlyMessage = 'Failed to process file';
-
-                // Convert technical errors to user-friendly messages
-                switch (errorMessage) {
-                    case 'NO_BWF_DATA':
-                        userFriendlyMessage = 'This file does not contain BWF markers';
-                        break;
-                    case 'FILE_NOT_FOUND':
-                        userFriendlyMessage = 'File could not be read (possibly due to special characters in filename)';
-                        break;
-                    case 'PROCESSING_ERROR':
-                        userFriendlyMessage = 'Could not process this file format';
-                        break;
-                    default:
-                        if (errorMessage.includes('NO_MARKERS_FOUND')) {
-                            userFriendlyMessage = 'This file does not contain any markers';
-                        } else if (errorMessage.includes('Failed to convert XML to labels')) {
-                            userFriendlyMessage = 'File processed but no markers were found';
-                        } else if (errorMessage.includes('XML parsing failed')) {
-                            userFriendlyMessage = 'File contains invalid BWF data';
-                        }
-                        break;
-                }
+                resultStore.remove(result.id);
+                throw error;
+            }
 
-                results.push({
-                    originalFile: correctedFilename,
-                    error: userFriendlyMessage
-                });
+            res.json({
+                originalFile: correctedFilename,
+                markerCount: cuePoints.length,
+                wavFile: outputFileName,
+                downloadUrl: `/download/${result.id}/${encodeURIComponent(outputFileName)}`
+            });
+        } catch (error) {
+            logger.warn('Writing markers failed', { file: loggedName(correctedFilename), error });
+            res.status(422).json({ originalFile: correctedFilename, error: ExtractionError.from(error).toJSON() });
+        }
+    } catch (error) {
+        logger.error('Write markers request failed', { error });
+        sendError(res, internalError());
+    } finally {
+        // Clean up uploaded files
+        for (const file of [wavFile, labelsFile]) {
+            if (file && fs.existsSync(file.path)) {
+                fs.unlinkSync(file.path);
             }
+        }
+    }
+});
 
-            // Clean up uploaded WAV file
-            fs.unlinkSync(file.path);
+// The markers of a finished file as JSON, with exact sample positions
+app.get('/results/:id/markers', requireApiKey, (req, res) => {
+    const filePath = resultStore.resolve(req.params.id, MARKERS_FILE);
+
+    if (!filePath) {
+        return sendError(res, new RequestError('NOT_FOUND', 'Result not found', { resultId: req.params.id }, 404));
+    }
+
+    res.type('application/json');
+    res.send(fs.readFileSync(filePath, 'utf8'));
+});
+
+// Downsampled min/max envelope of the audio, for the waveform preview
+app.get('/results/:id/peaks', requireApiKey, (req, res) => {
+    const filePath = resultStore.resolve(req.params.id, PEAKS_FILE);
+
+    if (!filePath) {
+        return sendError(res, new RequestError('NOT_FOUND', 'Waveform not found', { resultId: req.params.id }, 404));
+    }
+
+    res.type('application/json');
+    res.send(fs.readFileSync(filePath, 'utf8'));
+});
+
+// Built-in and configured label rule presets by name
+app.get('/label-presets', (req, res) => {
+    res.json({ presets: LabelRules.all });
+});
+
+// Formats a reviewed marker list; nothing is stored, the file is returned directly
+app.post('/export', requireApiKey, (req, res) => {
+    try {
+        const { fileName, sampleRate, offsetSeconds, markers, format = 'audacity', frameRate, durationSamples } = req.body || {};
+
+        if (!MarkerFormatter.isOutputFormat(format)) {
+            return sendError(res, new RequestError('INVALID_FORMAT', `Unsupported output format. Use one of: ${MarkerFormatter.outputFormats.join(', ')}`, {
+                field: 'format',
+                value: format,
+                allowed: MarkerFormatter.outputFormats
+            }));
+        }
+        if (frameRate !== undefined && !Timecode.isTimecodeRate(frameRate)) {
+            return sendError(res, new RequestError('INVALID_TIMECODE', `Unsupported frame rate. Use one of: ${Timecode.rates.join(', ')}`, { field: 'frameRate', value: frameRate }));
+        }
+        if (typeof fileName !== 'string' || !fileName) {
+            return sendError(res, new RequestError('INVALID_MARKERS', 'fileName is required', { field: 'fileName' }));
+        }
+
+        if (durationSamples !== undefined && (!Number.isInteger(durationSamples) || durationSamples < 0)) {
+            return sendError(res, new RequestError('INVALID_MARKERS', 'durationSamples must be a whole number of samples', { field: 'durationSamples', value: durationSamples }));
         }
 
-        res.json({ results });
+        const parsed = MarkerConverter.parseMarkerList(markers, sampleRate, offsetSeconds);
+        const baseName = path.basename(fileName, path.extname(fileName));
+        // Chapter formats end the last chapter with the audio
+        const duration = durationSamples !== undefined ? { samples: durationSamples, sampleRate } : undefined;
+
+        res.attachment(MarkerFormatter.outputFileName(baseName, format));
+        res.send(MarkerFormatter.format(parsed, format, path.basename(fileName), { frameRate: frameRate || Timecode.DEFAULT_RATE, duration }));
     } catch (error) {
-        console.error('Upload error:', error);
-        res.status(500).json({ error: 'Internal server error' });
+        if (error instanceof RequestError) {
+            return sendError(res, error);
+        }
+        logger.error('Export failed', { error });
+        sendError(res, internalError());
     }
 });
 
-app.get('/download/:filename', (req, res) => {
-    const filename = req.params.filename;
-    const filePath = path.join(__dirname, '../outputs', filename);
+app.get('/download/:id/:filename', requireApiKey, (req, res) => {
+    // Only files inside the result's own directory, and only until it expires
+    const filePath = resultStore.resolve(req.params.id, req.params.filename);
 
-    if (!fs.existsSync(filePath)) {
-        return res.status(404).json({ error: 'File not found' });
+    if (!filePath) {
+        return sendError(res, new RequestError('NOT_FOUND', 'File not found', {}, 404));
     }
 
     res.download(filePath, (err) => {
         if (err) {
-            console.error('Download error:', err);
-            res.status(500).json({ error: 'Download failed' });
+            logger.error('Download failed', { error: err });
+            if (!res.headersSent) {
+                sendError(res, internalError());
+            }
         }
     });
 });
 
-async function extractBwfMetadata(wavFilePath: string): Promise<string> {
-    const outputDir = 'temp';
-    const xmlFileName = `${Date.now()}-metadata.xml`;
-    const xmlFilePath = path.join(outputDir, xmlFileName);
+// Errors raised before a route handler runs, by multer's file filter and size limit
+app.use((error: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (error instanceof RequestError) {
+        return sendError(res, error);
+    }
 
-    // Ensure temp directory exists
-    if (!fs.existsSync(outputDir)) {
-        fs.mkdirSync(outputDir, { recursive: true });
+    if (error instanceof multer.MulterError) {
+        return sendError(res, error.code === 'LIMIT_FILE_SIZE'
+            ? new RequestError('UPLOAD_TOO_LARGE', `Files may be at most ${maxFileSizeMb} MB`, { field: error.field, maxFileSizeMb }, 413)
+            : new RequestError('INVALID_UPLOAD', error.message, { field: error.field, reason: error.code }));
     }
 
-    // Debug: Log the actual file path being processed
-    console.log('Processing file:', wavFilePath);
-    console.log('File exists:', fs.existsSync(wavFilePath));
+    logger.error('Unhandled error', { error });
+    sendError(res, internalError());
+});
 
-    try {
-        // Use bwfmetaedit to extract metadata as XML
-        // Use execFile to avoid shell encoding issues with special characters
-        await execFileAsync('bwfmetaedit', [
-            `--out-xml=${xmlFilePath}`,
-            wavFilePath
-        ], {
-            encoding: 'utf8',
-            env: { ...process.env, LANG: 'en_US.UTF-8', LC_ALL: 'en_US.UTF-8' }
-        });
+function sendError(res: express.Response, error: RequestError): void {
+    res.status(error.status).json({ error: error.toJSON() });
+}
+
+/**
+ * Lets the request through when no API keys are configured or it carries
+ * one: as `X-API-Key` header, bearer token or, for links in the web
+ * interface, `apiKey` query parameter.
+ */
+function requireApiKey(req: express.Request, res: express.Response, next: express.NextFunction): void {
+    if (apiKeys.length === 0) {
+        return next();
+    }
+
+    const bearer = req.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const key = req.get('X-API-Key') || bearer || (typeof req.query.apiKey === 'string' ? req.query.apiKey : undefined);
+
+    if (key && apiKeys.some(valid => keysMatch(valid, key))) {
+        return next();
+    }
+
+    logger.warn('Rejected request without a valid API key', { ip: req.ip, method: req.method });
+    res.set('WWW-Authenticate', 'Bearer');
+    sendError(res, new RequestError('UNAUTHORIZED', 'A valid API key is required', { headers: ['X-API-Key', 'Authorization'] }, 401));
+}
+
+function keysMatch(expected: string, actual: string): boolean {
+    // Hashing gives equal lengths, so the comparison takes the same time for every key
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(expected), digest(actual));
+}
 
-        if (!fs.existsSync(xmlFilePath)) {
-            throw new Error('NO_BWF_DATA');
+function rateLimit(limiter: RateLimiter | null): express.RequestHandler {
+    return (req, res, next) => {
+        if (!limiter) {
+            return next();
         }
 
-        return xmlFilePath;
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const result = limiter.take(req.ip || 'unknown');
+        res.set({
+            'RateLimit-Limit': String(result.limit),
+            'RateLimit-Remaining': String(result.remaining),
+            'RateLimit-Reset': String(result.resetSeconds)
+        });
 
-        // Check for common error patterns and provide user-friendly messages
-        if (errorMessage.includes('File does not exist') || errorMessage.includes('No such file')) {
-            throw new Error('FILE_NOT_FOUND');
+        if (result.allowed) {
+            return next();
         }
 
-        if (errorMessage.includes('Command failed') || errorMessage.includes('bwfmetaedit')) {
-            throw new Error('NO_BWF_DATA');
+        logger.warn('Rate limit exceeded', { ip: req.ip, limit: result.limit });
+        res.set('Retry-After', String(result.resetSeconds));
+        sendError(res, new RequestError('RATE_LIMITED', 'Too many requests, please try again later', {
+            limitPerMinute: result.limit,
+            retryAfterSeconds: result.resetSeconds
+        }, 429));
+    };
+}
+
+function createRateLimiter(value: string | undefined, defaultPerMinute: number): RateLimiter | null {
+    const perMinute = parseInt(value || String(defaultPerMinute));
+    return perMinute > 0 ? new RateLimiter(perMinute, 60 * 1000) : null;
+}
+
+// Express accepts true, a number of proxy hops or a list of trusted addresses
+function parseTrustProxy(value: string): boolean | number | string {
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    return /^\d+$/.test(value) ? parseInt(value) : value;
+}
+
+// File names can be personal data on a public server, so they are only logged at debug level
+function loggedName(name: string): string | undefined {
+    return logger.enabled('debug') ? name : undefined;
+}
+
+function jobNotFound(id: string): RequestError {
+    return new RequestError('NOT_FOUND', 'Job not found', { jobId: id }, 404);
+}
+
+function internalError(): RequestError {
+    return new RequestError('INTERNAL_ERROR', 'Internal server error', {}, 500);
+}
+
+function fileTask(file: Express.Multer.File, options: ProcessOptions, waveform: boolean): FileTask {
+    // Fix the filename encoding for display
+    const correctedFilename = fixFilenameEncoding(file.originalname);
+
+    return {
+        originalFile: correctedFilename,
+        run: async () => {
+            const result = resultStore.create();
+
+            try {
+                // The upload is streamed through the library API; only bwfmetaedit needs it on disk
+                const extraction = await extractMarkers(fs.createReadStream(file.path), {
+                    ...options,
+                    fileName: correctedFilename,
+                    fallback: options.bwfMetaEditFallback
+                        ? metadata => WavProcessor.detectWithBwfMetaEdit(file.path, metadata, options)
+                        : undefined
+                });
+
+                // Use corrected filename for output naming
+                const format = options.format || 'audacity';
+                const labelsFile = MarkerFormatter.outputFileName(path.basename(correctedFilename, path.extname(correctedFilename)), format);
+                const outputFilePath = path.join(result.directory, labelsFile);
+                fs.writeFileSync(outputFilePath, formatMarkers(extraction.markers, format, {
+                    fileName: correctedFilename,
+                    frameRate: extraction.frameRate,
+                    duration: extraction.duration,
+                    start: extraction.start,
+                    warnings: extraction.warnings
+                }), 'utf8');
+
+                const conversion: ConversionResult = {
+                    outputFilePath,
+                    markerCount: extraction.markers.length,
+                    markers: extraction.markers,
+                    warnings: extraction.warnings,
+                    detection: extraction.detection,
+                    duration: MarkerConverter.audioDuration(extraction.metadata, options.timecode),
+                    offset: MarkerConverter.markerOffset(extraction.metadata, options)
+                };
+                const completed = completedResult(result, conversion, correctedFilename);
+
+                if (waveform) {
+                    try {
+                        const peaks = await PeakEnvelope.compute(file.path, await BwfReader.readFile(file.path, { audioOmitted: options.audioOmitted }));
+                        fs.writeFileSync(path.join(result.directory, PEAKS_FILE), JSON.stringify(peaks), 'utf8');
+                        completed.peaksUrl = `/results/${result.id}/peaks`;
+                    } catch (error) {
+                        // The labels are fine; only the preview is missing
+                        conversion.warnings.push(`No waveform preview: ${ExtractionError.from(error).message}`);
+                    }
+                }
+
+                return completed;
+            } catch (error) {
+                resultStore.remove(result.id);
+                if (!(error instanceof ExtractionError)) {
+                    logger.error('Unexpected conversion error', { file: loggedName(correctedFilename), error });
+                }
+                throw error;
+            } finally {
+                // Clean up uploaded WAV file
+                fs.unlinkSync(file.path);
+            }
         }
+    };
+}
 
-        throw new Error('PROCESSING_ERROR');
+/**
+ * Groups the uploads into recording sessions, one task each. The chunk
+ * tables are read up front because grouping may depend on iXML file sets.
+ */
+async function sessionTasks(files: Express.Multer.File[], skeletons: Set<Express.Multer.File>, options: ProcessOptions): Promise<FileTask[]> {
+    const sessionFiles: SessionFile[] = await Promise.all(files.map(async file => ({
+        filePath: file.path,
+        originalFileName: fixFilenameEncoding(file.originalname),
+        // Unreadable files become a session of their own and fail with the reader's error
+        metadata: await BwfReader.readFile(file.path, { audioOmitted: skeletons.has(file) }).catch(() => null)
+    })));
+
+    return RecordingSessions.group(sessionFiles).map(session => {
+        const members = session.segments.flatMap(segment => segment.files);
+
+        return {
+            originalFile: members.length > 1 ? `${session.name} (${members.length} files)` : members[0].originalFileName,
+            run: async () => {
+                const result = resultStore.create();
+
+                try {
+                    const conversion = await WavProcessor.processSession(session, { ...options, outputDir: result.directory });
+                    return { ...completedResult(result, conversion, session.name), session: conversion.session };
+                } catch (error) {
+                    resultStore.remove(result.id);
+                    if (!(error instanceof ExtractionError)) {
+                        logger.error('Unexpected conversion error', { file: loggedName(session.name), error });
+                    }
+                    throw error;
+                } finally {
+                    // Clean up uploaded WAV files
+                    members.forEach(file => fs.unlinkSync(file.filePath));
+                }
+            }
+        };
+    });
+}
+
+/**
+ * The job entry of a finished conversion. The markers are also stored as
+ * JSON next to the label file, for the review table of the web interface.
+ */
+function completedResult(result: StoredResult, conversion: ConversionResult, sourceFileName: string): Record<string, unknown> {
+    const labelsFile = path.basename(conversion.outputFilePath);
+    fs.writeFileSync(path.join(result.directory, MARKERS_FILE), MarkerFormatter.format(conversion.markers, 'json', sourceFileName, {
+        duration: conversion.duration,
+        offset: conversion.offset
+    }), 'utf8');
+
+    return {
+        resultId: result.id,
+        labelsFile,
+        downloadUrl: `/download/${result.id}/${encodeURIComponent(labelsFile)}`,
+        markersUrl: `/results/${result.id}/markers`,
+        markerCount: conversion.markerCount,
+        warnings: conversion.warnings,
+        detection: conversion.detection
+    };
+}
+
+function fixFilenameEncoding(filename: string): string {
+    try {
+        // Multer decodes multipart filenames as latin1, which mangles UTF-8 names
+        if (filename.includes('Ã')) {
+            return Buffer.from(filename, 'latin1').toString('utf8');
+        }
+    } catch (error) {
+        logger.debug('Filename encoding fix failed for display, using original', { file: filename });
     }
+    return filename;
 }
 
+// Optional watch-folder mode: WATCH_DIRS is a comma separated list of directories.
+// Its settings are checked before the server starts listening, like LOG_LEVEL.
+const watcher = process.env.WATCH_DIRS ? createWatcher(process.env.WATCH_DIRS) : null;
+
 app.listen(port, () => {
-    console.log(`Server running at http://localhost:${port}`);
-});
\ No newline at end of file
+    logger.info('Server running', { url: `http://localhost:${port}`, apiKeys: apiKeys.length > 0 ? 'required' : 'off', logLevel });
+});
+
+watcher?.start();
+
+function createWatcher(watchDirs: string): FolderWatcher {
+    const watchFormat = process.env.WATCH_FORMAT || 'audacity';
+    if (!MarkerFormatter.isOutputFormat(watchFormat)) {
+        throw new Error(`Unsupported WATCH_FORMAT. Use one of: ${MarkerFormatter.outputFormats.join(', ')}`);
+    }
+
+    let labelRules: LabelRuleOptions | undefined;
+    try {
+        labelRules = LabelRules.parseOptions(process.env.WATCH_LABEL_PRESET);
+    } catch (error) {
+        throw new Error(`Invalid WATCH_LABEL_PRESET: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return new FolderWatcher({
+        directories: watchDirs.split(',').map(dir => dir.trim()).filter(Boolean),
+        stateFile: process.env.WATCH_STATE_FILE || 'watch-state.json',
+        intervalMs: parseInt(process.env.WATCH_INTERVAL_SECONDS || '10') * 1000,
+        settleMs: parseInt(process.env.WATCH_SETTLE_SECONDS || '5') * 1000,
+        format: watchFormat,
+        labelRules,
+        bwfMetaEditFallback: useBwfMetaEditFallback,
+        genericDetection: useGenericDetection,
+        log: message => logger.debug(message),
+        logger: logger.child({ component: 'watch' })
+    });
+}
@@ -0,0 +1,487 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { ExtractionError } from './errors';
+
+export interface WavFormat {
+    audioFormat: number;
+    channels: number;
+    sampleRate: number;
+    byteRate: number;
+    blockAlign: number;
+    bitsPerSample: number;
+    // Format code of the subformat GUID when audioFormat is WAVE_FORMAT_EXTENSIBLE (0xFFFE)
+    subFormat: number | null;
+}
+
+export interface BextInfo {
+    description: string;
+    originator: string;
+    originatorReference: string;
+    originationDate: string;
+    originationTime: string;
+    timeReference: number;
+    version: number;
+    codingHistory: string;
+}
+
+export interface CuePoint {
+    id: number;
+    samplePosition: number;
+    label?: string;
+    note?: string;
+    sampleLength?: number;
+    text?: string;
+}
+
+export interface SampleLoop {
+    cuePointId: number;
+    start: number;
+    // Last sample of the loop, inclusive
+    end: number;
+    // 0 means loop forever
+    playCount: number;
+}
+
+export interface ChunkInfo {
+    id: string;
+    offset: number;
+    size: number;
+}
+
+export interface BwfMetadata {
+    // RF64 and BW64 files keep their 64-bit sizes in a ds64 chunk
+    container: 'RIFF' | 'RF64' | 'BW64';
+    format: WavFormat | null;
+    bext: BextInfo | null;
+    ixml: string | null;
+    cuePoints: CuePoint[];
+    // Loops from the `smpl` chunk written by sample editors
+    sampleLoops: SampleLoop[];
+    dataOffset: number | null;
+    dataSize: number | null;
+    chunks: ChunkInfo[];
+}
+
+export interface ReadOptions {
+    // The file is a chunk skeleton: every chunk except the body of `data`, see README
+    audioOmitted?: boolean;
+}
+
+/**
+ * Random access to the bytes of a WAV file, so the reader can skip over the
+ * audio data instead of loading the whole recording into memory.
+ */
+interface ByteSource {
+    size: number;
+    read(offset: number, length: number): Promise<Buffer>;
+}
+
+// 64-bit sizes of an RF64/BW64 file (EBU Tech 3306/ITU-R BS.2088)
+interface Ds64 {
+    riffSize: number;
+    dataSize: number;
+    // Other chunks larger than 4GB, by chunk ID
+    chunkSizes: Map<string, number>;
+}
+
+const CHUNK_HEADER_SIZE = 8;
+// 32-bit size fields set to this value take their real size from ds64
+const DS64_SIZE_MARKER = 0xFFFFFFFF;
+const DS64_HEADER_SIZE = 28;
+const DS64_TABLE_ENTRY_SIZE = 12;
+const CUE_POINT_SIZE = 24;
+const SMPL_HEADER_SIZE = 36;
+const SAMPLE_LOOP_SIZE = 24;
+// Larger chunks are skipped when streaming; bext, iXML and cue lists stay far below it
+const MAX_STREAMED_CHUNK_SIZE = 16 * 1024 * 1024;
+
+export class BwfReader {
+
+    static async readFile(filePath: string, options: ReadOptions = {}): Promise<BwfMetadata> {
+        const handle = await fs.promises.open(filePath, 'r');
+
+        try {
+            const stat = await handle.stat();
+            const source: ByteSource = {
+                size: stat.size,
+                read: async (offset, length) => {
+                    const buffer = Buffer.alloc(length);
+                    const { bytesRead } = await handle.read(buffer, 0, length, offset);
+                    return buffer.subarray(0, bytesRead);
+                }
+            };
+
+            return await this.parse(source, options);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    static async readBuffer(buffer: Buffer, options: ReadOptions = {}): Promise<BwfMetadata> {
+        return this.parse({
+            size: buffer.length,
+            read: async (offset, length) => buffer.subarray(offset, offset + length)
+        }, options);
+    }
+
+    /**
+     * Reads a WAV from a stream in one pass. Only the chunk skeleton is
+     * kept in memory; the audio is skipped as it streams past, so the result
+     * has a `dataSize` but no `dataOffset`. Chunks larger than
+     * MAX_STREAMED_CHUNK_SIZE are skipped as well, as no metadata chunk is
+     * that large.
+     */
+    static async readStream(stream: Readable, options: ReadOptions = {}): Promise<BwfMetadata> {
+        const kept: Buffer[] = [];
+        // Bytes of a chunk header or body that has not arrived completely
+        let parts: Buffer[] = [];
+        let partsLength = 0;
+        // Bytes the current step needs before it can go on
+        let needed = 12;
+        let headerRead = false;
+        let ds64: Ds64 | null = null;
+        // Audio or oversized chunk bytes still to be discarded
+        let skip = 0;
+
+        for await (const data of stream) {
+            let bytes: Buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+
+            while (bytes.length > 0) {
+                if (skip > 0) {
+                    // Most blocks are audio and are skipped without copying
+                    const skipped = Math.min(skip, bytes.length);
+                    skip -= skipped;
+                    bytes = bytes.subarray(skipped);
+                    continue;
+                }
+
+                if (partsLength + bytes.length < needed) {
+                    parts.push(bytes);
+                    partsLength += bytes.length;
+                    break;
+                }
+
+                // Joined once, when everything the step needs is there
+                const taken = needed - partsLength;
+                const pending = parts.length > 0 ? Buffer.concat([...parts, bytes.subarray(0, taken)]) : bytes.subarray(0, taken);
+                bytes = bytes.subarray(taken);
+                parts = [];
+                partsLength = 0;
+
+                if (!headerRead) {
+                    this.checkHeader(pending);
+                    kept.push(pending);
+                    headerRead = true;
+                    needed = CHUNK_HEADER_SIZE;
+                    continue;
+                }
+
+                if (pending.length > CHUNK_HEADER_SIZE) {
+                    // A complete chunk whose header was read before
+                    const id = pending.toString('ascii', 0, 4);
+                    if (id === 'ds64' && kept.length === 1) {
+                        ds64 = this.parseDs64(pending.subarray(CHUNK_HEADER_SIZE));
+                    }
+                    kept.push(pending);
+                    needed = CHUNK_HEADER_SIZE;
+                    continue;
+                }
+
+                const id = pending.toString('ascii', 0, 4);
+                let size = pending.readUInt32LE(4);
+                if (size === DS64_SIZE_MARKER && ds64) {
+                    size = (id === 'data' ? ds64.dataSize : ds64.chunkSizes.get(id)) ?? size;
+                }
+                const paddedSize = size + (size % 2);
+
+                if (id === 'data') {
+                    // Keep the header, and with it the size of the audio
+                    kept.push(pending);
+                    skip = options.audioOmitted ? 0 : paddedSize;
+                } else if (paddedSize > MAX_STREAMED_CHUNK_SIZE) {
+                    skip = paddedSize;
+                } else if (paddedSize > 0) {
+                    parts.push(pending);
+                    partsLength = pending.length;
+                    needed = CHUNK_HEADER_SIZE + paddedSize;
+                } else {
+                    kept.push(pending);
+                }
+            }
+        }
+
+        if (!headerRead) {
+            this.checkHeader(Buffer.concat(parts));
+        }
+
+        // A truncated last chunk is left to the parser, as for files
+        kept.push(...parts);
+        return this.readBuffer(Buffer.concat(kept), { audioOmitted: true });
+    }
+
+    private static checkHeader(header: Buffer): void {
+        const container = header.length >= 12 ? header.toString('ascii', 0, 4) : '';
+        if ((container !== 'RIFF' && container !== 'RF64' && container !== 'BW64') || header.toString('ascii', 8, 12) !== 'WAVE') {
+            throw new ExtractionError('INVALID_WAV', { reason: 'Missing RIFF/WAVE header' });
+        }
+    }
+
+    private static async parse(source: ByteSource, options: ReadOptions): Promise<BwfMetadata> {
+        const header = await source.read(0, 12);
+        this.checkHeader(header);
+        const container = header.toString('ascii', 0, 4) as BwfMetadata['container'];
+
+        const metadata: BwfMetadata = {
+            container,
+            format: null,
+            bext: null,
+            ixml: null,
+            cuePoints: [],
+            sampleLoops: [],
+            dataOffset: null,
+            dataSize: null,
+            chunks: []
+        };
+
+        // Cue points and their adtl annotations are linked by cue ID and may
+        // appear in either order, so collect both before merging.
+        const cueById = new Map<number, CuePoint>();
+        const labels = new Map<number, string>();
+        const notes = new Map<number, string>();
+        const texts = new Map<number, { sampleLength: number; text: string }>();
+
+        let ds64: Ds64 | null = null;
+        let riffEnd = Math.min(source.size, header.readUInt32LE(4) + CHUNK_HEADER_SIZE);
+        let offset = 12;
+
+        while (offset + CHUNK_HEADER_SIZE <= riffEnd) {
+            const chunkHeader = await source.read(offset, CHUNK_HEADER_SIZE);
+            if (chunkHeader.length < CHUNK_HEADER_SIZE) break;
+
+            const id = chunkHeader.toString('ascii', 0, 4);
+            let size = chunkHeader.readUInt32LE(4);
+            if (size === DS64_SIZE_MARKER && ds64) {
+                size = (id === 'data' ? ds64.dataSize : ds64.chunkSizes.get(id)) ?? size;
+            }
+
+            const bodyOffset = offset + CHUNK_HEADER_SIZE;
+            // Truncated recordings may claim more data than the file holds
+            const bodySize = Math.min(size, source.size - bodyOffset);
+
+            metadata.chunks.push({ id, offset, size });
+
+            switch (id) {
+                case 'ds64':
+                    // Must be the first chunk of an RF64/BW64 file
+                    if (container !== 'RIFF' && metadata.chunks.length === 1) {
+                        ds64 = this.parseDs64(await source.read(bodyOffset, bodySize));
+                        if (ds64) {
+                            riffEnd = Math.min(source.size, ds64.riffSize + CHUNK_HEADER_SIZE);
+                        }
+                    }
+                    break;
+                case 'fmt ':
+                    metadata.format = this.parseFormat(await source.read(bodyOffset, bodySize));
+                    break;
+                case 'bext':
+                    metadata.bext = this.parseBext(await source.read(bodyOffset, bodySize));
+                    break;
+                case 'iXML':
+                    metadata.ixml = (await source.read(bodyOffset, bodySize)).toString('utf8').replace(/\0+$/, '');
+                    break;
+                case 'cue ':
+                    for (const cue of this.parseCue(await source.read(bodyOffset, bodySize))) {
+                        cueById.set(cue.id, cue);
+                    }
+                    break;
+                case 'smpl':
+                    metadata.sampleLoops = this.parseSmpl(await source.read(bodyOffset, bodySize));
+                    break;
+                case 'LIST': {
+                    const body = await source.read(bodyOffset, bodySize);
+                    if (body.length >= 4 && body.toString('ascii', 0, 4) === 'adtl') {
+                        this.parseAdtl(body.subarray(4), labels, notes, texts);
+                    }
+                    break;
+                }
+                case 'data':
+                    if (options.audioOmitted) {
+                        // Only the chunk header was sent; the audio and its pad byte are not in the file
+                        metadata.dataSize = size;
+                        offset = bodyOffset;
+                        continue;
+                    }
+                    metadata.dataOffset = bodyOffset;
+                    metadata.dataSize = bodySize;
+                    break;
+            }
+
+            // Chunks are word aligned; odd sizes carry a pad byte
+            offset = bodyOffset + size + (size % 2);
+        }
+
+        for (const cue of cueById.values()) {
+            const label = labels.get(cue.id);
+            const note = notes.get(cue.id);
+            const text = texts.get(cue.id);
+
+            if (label) cue.label = label;
+            if (note) cue.note = note;
+            if (text) {
+                cue.sampleLength = text.sampleLength;
+                if (text.text) cue.text = text.text;
+            }
+
+            metadata.cuePoints.push(cue);
+        }
+
+        metadata.cuePoints.sort((a, b) => a.samplePosition - b.samplePosition);
+
+        return metadata;
+    }
+
+    private static parseDs64(body: Buffer): Ds64 | null {
+        if (body.length < DS64_HEADER_SIZE) return null;
+
+        const chunkSizes = new Map<string, number>();
+        const tableLength = body.readUInt32LE(24);
+
+        for (let i = 0; i < tableLength; i++) {
+            const entryOffset = DS64_HEADER_SIZE + i * DS64_TABLE_ENTRY_SIZE;
+            if (entryOffset + DS64_TABLE_ENTRY_SIZE > body.length) break;
+
+            chunkSizes.set(body.toString('ascii', entryOffset, entryOffset + 4), this.readUInt64(body, entryOffset + 4));
+        }
+
+        return {
+            riffSize: this.readUInt64(body, 0),
+            dataSize: this.readUInt64(body, 8),
+            chunkSizes
+        };
+    }
+
+    private static readUInt64(buffer: Buffer, offset: number): number {
+        // Exact up to 2^53 bytes, far beyond any recording
+        return buffer.readUInt32LE(offset + 4) * 0x100000000 + buffer.readUInt32LE(offset);
+    }
+
+    private static parseFormat(body: Buffer): WavFormat | null {
+        if (body.length < 16) return null;
+
+        return {
+            audioFormat: body.readUInt16LE(0),
+            channels: body.readUInt16LE(2),
+            sampleRate: body.readUInt32LE(4),
+            byteRate: body.readUInt32LE(8),
+            blockAlign: body.readUInt16LE(12),
+            bitsPerSample: body.readUInt16LE(14),
+            // cbSize, valid bits and channel mask precede the GUID, whose first two bytes are the format code
+            subFormat: body.length >= 26 && body.readUInt16LE(0) === 0xFFFE ? body.readUInt16LE(24) : null
+        };
+    }
+
+    private static parseBext(body: Buffer): BextInfo | null {
+        // Fixed part of the EBU Tech 3285 bext chunk ends at the coding history
+        if (body.length < 348) return null;
+
+        return {
+            description: this.readString(body, 0, 256),
+            originator: this.readString(body, 256, 32),
+            originatorReference: this.readString(body, 288, 32),
+            originationDate: this.readString(body, 320, 10),
+            originationTime: this.readString(body, 330, 8),
+            timeReference: this.readUInt64(body, 338),
+            version: body.readUInt16LE(346),
+            codingHistory: body.length > 602 ? this.readString(body, 602, body.length - 602) : ''
+        };
+    }
+
+    private static parseCue(body: Buffer): CuePoint[] {
+        if (body.length < 4) return [];
+
+        const count = body.readUInt32LE(0);
+        const cuePoints: CuePoint[] = [];
+
+        for (let i = 0; i < count; i++) {
+            const pointOffset = 4 + i * CUE_POINT_SIZE;
+            if (pointOffset + CUE_POINT_SIZE > body.length) break;
+
+            cuePoints.push({
+                id: body.readUInt32LE(pointOffset),
+                // dwSampleOffset is the position within the data chunk
+                samplePosition: body.readUInt32LE(pointOffset + 20)
+            });
+        }
+
+        return cuePoints;
+    }
+
+    private static parseSmpl(body: Buffer): SampleLoop[] {
+        if (body.length < SMPL_HEADER_SIZE) return [];
+
+        const count = body.readUInt32LE(28);
+        const loops: SampleLoop[] = [];
+
+        for (let i = 0; i < count; i++) {
+            const loopOffset = SMPL_HEADER_SIZE + i * SAMPLE_LOOP_SIZE;
+            if (loopOffset + SAMPLE_LOOP_SIZE > body.length) break;
+
+            loops.push({
+                cuePointId: body.readUInt32LE(loopOffset),
+                start: body.readUInt32LE(loopOffset + 8),
+                end: body.readUInt32LE(loopOffset + 12),
+                playCount: body.readUInt32LE(loopOffset + 20)
+            });
+        }
+
+        return loops;
+    }
+
+    private static parseAdtl(
+        body: Buffer,
+        labels: Map<number, string>,
+        notes: Map<number, string>,
+        texts: Map<number, { sampleLength: number; text: string }>
+    ): void {
+        let offset = 0;
+
+        while (offset + CHUNK_HEADER_SIZE <= body.length) {
+            const id = body.toString('ascii', offset, offset + 4);
+            const size = body.readUInt32LE(offset + 4);
+            const sub = body.subarray(offset + CHUNK_HEADER_SIZE, offset + CHUNK_HEADER_SIZE + size);
+
+            if (sub.length >= 4) {
+                const cueId = sub.readUInt32LE(0);
+
+                switch (id) {
+                    case 'labl':
+                        labels.set(cueId, this.readString(sub, 4, sub.length - 4));
+                        break;
+                    case 'note':
+                        notes.set(cueId, this.readString(sub, 4, sub.length - 4));
+                        break;
+                    case 'ltxt':
+                        if (sub.length >= 20) {
+                            texts.set(cueId, {
+                                sampleLength: sub.readUInt32LE(4),
+                                text: this.readString(sub, 20, sub.length - 20)
+                            });
+                        }
+                        break;
+                }
+            }
+
+            offset += CHUNK_HEADER_SIZE + size + (size % 2);
+        }
+    }
+
+    private static readString(buffer: Buffer, offset: number, length: number): string {
+        const bytes = buffer.subarray(offset, offset + length);
+        const end = bytes.indexOf(0);
+        const trimmed = end === -1 ? bytes : bytes.subarray(0, end);
+
+        // Most recorders write ASCII or UTF-8; fall back to Latin-1 for older tools
+        const text = trimmed.toString('utf8');
+        return (text.includes('�') ? trimmed.toString('latin1') : text).trim();
+    }
+}
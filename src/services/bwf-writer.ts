@@ -0,0 +1,185 @@
+import fs from 'fs';
+import { BwfReader, ChunkInfo, CuePoint } from './bwf-reader';
+import { ExtractionError } from './errors';
+
+const COPY_BLOCK_SIZE = 1024 * 1024;
+const MAX_RIFF_SIZE = 0xFFFFFFFF;
+const CHUNK_HEADER_SIZE = 8;
+// Offsets of the 64-bit RIFF and data sizes in an RF64/BW64 file, whose first chunk is ds64
+const DS64_RIFF_SIZE_OFFSET = 20;
+const DS64_DATA_SIZE_OFFSET = 28;
+// 32-bit size fields set to this value take their real size from ds64
+const DS64_SIZE_MARKER = 0xFFFFFFFF;
+
+export class BwfWriter {
+
+    /**
+     * Copies a WAV file and replaces its cue markers. Every chunk except
+     * `cue ` and `LIST/adtl` is copied byte for byte, so the audio data is
+     * left untouched; the new marker chunks are appended at the end.
+     * RF64/BW64 files keep their container and get an updated ds64 size.
+     * A chunk cut off by a truncated recording is copied as far as it goes
+     * and its size field rewritten to match.
+     */
+    static async writeMarkers(inputPath: string, outputPath: string, cuePoints: CuePoint[]): Promise<void> {
+        const metadata = await BwfReader.readFile(inputPath);
+        const markerChunks = this.buildMarkerChunks(cuePoints);
+
+        const input = await fs.promises.open(inputPath, 'r');
+        const output = await fs.promises.open(outputPath, 'w');
+        let completed = false;
+
+        try {
+            const inputSize = (await input.stat()).size;
+            const keptChunks = [];
+
+            for (const chunk of metadata.chunks) {
+                // A chunk header cut off at the end of the file is left out
+                if (chunk.offset + CHUNK_HEADER_SIZE > inputSize) continue;
+                if (chunk.id === 'cue ' || (chunk.id === 'LIST' && await this.isAdtlList(input, chunk.offset))) {
+                    continue;
+                }
+                keptChunks.push(chunk);
+            }
+
+            // Never copy past the end of a truncated recording
+            const bodySizes = keptChunks.map(chunk => Math.max(0, Math.min(chunk.size, inputSize - chunk.offset - CHUNK_HEADER_SIZE)));
+
+            const riffSize = 4 + bodySizes.reduce((sum, size) => sum + CHUNK_HEADER_SIZE + size + (size % 2), 0) + markerChunks.length;
+            const hasDs64 = metadata.container !== 'RIFF' && keptChunks[0]?.id === 'ds64';
+            if (riffSize > MAX_RIFF_SIZE && !hasDs64) {
+                throw new ExtractionError('FILE_TOO_LARGE', { riffSize });
+            }
+
+            const header = Buffer.alloc(12);
+            header.write(metadata.container, 0, 'ascii');
+            header.writeUInt32LE(hasDs64 ? MAX_RIFF_SIZE : riffSize, 4);
+            header.write('WAVE', 8, 'ascii');
+            await output.write(header);
+
+            const truncated: { position: number; chunk: ChunkInfo; size: number }[] = [];
+            let position = header.length;
+
+            for (let i = 0; i < keptChunks.length; i++) {
+                const size = bodySizes[i];
+                await this.copyRange(input, output, keptChunks[i].offset, CHUNK_HEADER_SIZE + size);
+                if (size % 2) {
+                    await output.write(Buffer.alloc(1));
+                }
+                if (size < keptChunks[i].size) {
+                    truncated.push({ position, chunk: keptChunks[i], size });
+                }
+                position += CHUNK_HEADER_SIZE + size + (size % 2);
+            }
+
+            await output.write(markerChunks);
+
+            for (const { position, chunk, size } of truncated) {
+                const sizeField = Buffer.alloc(4);
+                await input.read(sizeField, 0, 4, chunk.offset + 4);
+
+                if (hasDs64 && chunk.id === 'data' && sizeField.readUInt32LE(0) === DS64_SIZE_MARKER) {
+                    const dataSize = Buffer.alloc(8);
+                    dataSize.writeUInt32LE(size % 0x100000000, 0);
+                    dataSize.writeUInt32LE(Math.floor(size / 0x100000000), 4);
+                    await output.write(dataSize, 0, 8, DS64_DATA_SIZE_OFFSET);
+                } else {
+                    sizeField.writeUInt32LE(size, 0);
+                    await output.write(sizeField, 0, 4, position + 4);
+                }
+            }
+
+            if (hasDs64) {
+                const size = Buffer.alloc(8);
+                size.writeUInt32LE(riffSize % 0x100000000, 0);
+                size.writeUInt32LE(Math.floor(riffSize / 0x100000000), 4);
+                await output.write(size, 0, 8, DS64_RIFF_SIZE_OFFSET);
+            }
+            completed = true;
+        } finally {
+            await output.close();
+            await input.close();
+
+            // Do not leave a half-written WAV behind
+            if (!completed) {
+                fs.rmSync(outputPath, { force: true });
+            }
+        }
+    }
+
+    private static buildMarkerChunks(cuePoints: CuePoint[]): Buffer {
+        if (cuePoints.length === 0) {
+            return Buffer.alloc(0);
+        }
+
+        const cue = Buffer.alloc(4 + cuePoints.length * 24);
+        cue.writeUInt32LE(cuePoints.length, 0);
+
+        cuePoints.forEach((point, index) => {
+            const offset = 4 + index * 24;
+            cue.writeUInt32LE(point.id, offset);
+            cue.writeUInt32LE(point.samplePosition, offset + 4);
+            cue.write('data', offset + 8, 'ascii');
+            cue.writeUInt32LE(0, offset + 12);
+            cue.writeUInt32LE(0, offset + 16);
+            cue.writeUInt32LE(point.samplePosition, offset + 20);
+        });
+
+        const adtl: Buffer[] = [Buffer.from('adtl', 'ascii')];
+
+        for (const point of cuePoints) {
+            if (point.label) {
+                adtl.push(this.buildChunk('labl', Buffer.concat([this.cueId(point.id), this.zstring(point.label)])));
+            }
+            if (point.note) {
+                adtl.push(this.buildChunk('note', Buffer.concat([this.cueId(point.id), this.zstring(point.note)])));
+            }
+            if (point.sampleLength) {
+                // Region: sample length, 'rgn ' purpose, country/language/dialect/code page left at 0
+                const ltxt = Buffer.alloc(20);
+                ltxt.writeUInt32LE(point.id, 0);
+                ltxt.writeUInt32LE(point.sampleLength, 4);
+                ltxt.write('rgn ', 8, 'ascii');
+                adtl.push(this.buildChunk('ltxt', point.text ? Buffer.concat([ltxt, this.zstring(point.text)]) : ltxt));
+            }
+        }
+
+        return Buffer.concat([this.buildChunk('cue ', cue), this.buildChunk('LIST', Buffer.concat(adtl))]);
+    }
+
+    private static buildChunk(id: string, body: Buffer): Buffer {
+        const header = Buffer.alloc(8);
+        header.write(id, 0, 'ascii');
+        header.writeUInt32LE(body.length, 4);
+        return body.length % 2 ? Buffer.concat([header, body, Buffer.alloc(1)]) : Buffer.concat([header, body]);
+    }
+
+    private static cueId(id: number): Buffer {
+        const buffer = Buffer.alloc(4);
+        buffer.writeUInt32LE(id, 0);
+        return buffer;
+    }
+
+    private static zstring(value: string): Buffer {
+        return Buffer.concat([Buffer.from(value, 'utf8'), Buffer.alloc(1)]);
+    }
+
+    private static async isAdtlList(input: fs.promises.FileHandle, offset: number): Promise<boolean> {
+        const type = Buffer.alloc(4);
+        await input.read(type, 0, 4, offset + 8);
+        return type.toString('ascii') === 'adtl';
+    }
+
+    private static async copyRange(input: fs.promises.FileHandle, output: fs.promises.FileHandle, offset: number, length: number): Promise<void> {
+        const buffer = Buffer.alloc(Math.min(COPY_BLOCK_SIZE, length));
+        let copied = 0;
+
+        while (copied < length) {
+            const { bytesRead } = await input.read(buffer, 0, Math.min(buffer.length, length - copied), offset + copied);
+            if (bytesRead === 0) break;
+
+            await output.write(buffer, 0, bytesRead);
+            copied += bytesRead;
+        }
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * Errors with a stable machine-readable code, a human message and optional
+ * details. The codes are part of the HTTP API contract (see
+ * public/openapi.yaml), so existing codes must not be renamed.
+ */
+
+export type ExtractionErrorCode =
+    | 'FILE_NOT_FOUND'
+    | 'INVALID_WAV'
+    | 'MISSING_FORMAT'
+    | 'NO_BWF_DATA'
+    | 'NO_MARKERS_FOUND'
+    | 'INVALID_BWF_XML'
+    | 'BWFMETAEDIT_UNAVAILABLE'
+    | 'BWFMETAEDIT_FAILED'
+    | 'INVALID_LABELS'
+    | 'FILE_TOO_LARGE'
+    | 'NO_AUDIO_DATA'
+    | 'UNSUPPORTED_AUDIO_FORMAT'
+    | 'DROP_PATTERN_TIMEOUT'
+    | 'PROCESSING_ERROR';
+
+export type RequestErrorCode =
+    | 'NO_FILES'
+    | 'UNSUPPORTED_FILE_TYPE'
+    | 'UPLOAD_TOO_LARGE'
+    | 'INVALID_UPLOAD'
+    | 'INVALID_FORMAT'
+    | 'INVALID_TIMECODE'
+    | 'INVALID_MARKERS'
+    | 'INVALID_LABEL_RULES'
+    | 'NOT_FOUND'
+    | 'UNAUTHORIZED'
+    | 'RATE_LIMITED'
+    | 'INTERNAL_ERROR';
+
+export interface ErrorBody {
+    code: ExtractionErrorCode | RequestErrorCode;
+    message: string;
+    details: Record<string, unknown>;
+}
+
+const EXTRACTION_MESSAGES: Record<ExtractionErrorCode, string> = {
+    FILE_NOT_FOUND: 'File could not be read (possibly due to special characters in filename)',
+    INVALID_WAV: 'This file is not a valid WAV file',
+    MISSING_FORMAT: 'File has no valid fmt chunk to determine the sample rate',
+    NO_BWF_DATA: 'This file does not contain BWF markers',
+    NO_MARKERS_FOUND: 'This file does not contain any markers',
+    INVALID_BWF_XML: 'File contains invalid BWF data',
+    BWFMETAEDIT_UNAVAILABLE: 'The bwfmetaedit fallback is enabled but bwfmetaedit is not installed',
+    BWFMETAEDIT_FAILED: 'bwfmetaedit could not read this file',
+    INVALID_LABELS: 'The label file is not a valid Audacity label track',
+    FILE_TOO_LARGE: 'The resulting WAV file would exceed the 4GB RIFF limit',
+    NO_AUDIO_DATA: 'The file contains no audio data',
+    UNSUPPORTED_AUDIO_FORMAT: 'Only 8/16/24/32-bit PCM and 32/64-bit float audio can be previewed',
+    DROP_PATTERN_TIMEOUT: 'The dropPattern took too long to match the labels of this file',
+    PROCESSING_ERROR: 'Failed to process file'
+};
+
+/**
+ * A file could not be converted. Thrown by the reader, converter and
+ * writer services; reported per file without failing the whole request.
+ */
+export class ExtractionError extends Error {
+    readonly code: ExtractionErrorCode;
+    readonly details: Record<string, unknown>;
+
+    constructor(code: ExtractionErrorCode, details: Record<string, unknown> = {}, message: string = EXTRACTION_MESSAGES[code]) {
+        super(message);
+        this.name = 'ExtractionError';
+        this.code = code;
+        this.details = details;
+    }
+
+    /**
+     * Wraps anything thrown during processing; unexpected errors become
+     * PROCESSING_ERROR with the original message in the details.
+     */
+    static from(error: unknown): ExtractionError {
+        if (error instanceof ExtractionError) {
+            return error;
+        }
+
+        if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+            return new ExtractionError('FILE_NOT_FOUND');
+        }
+
+        return new ExtractionError('PROCESSING_ERROR', { reason: error instanceof Error ? error.message : String(error) });
+    }
+
+    toJSON(): ErrorBody {
+        return { code: this.code, message: this.message, details: this.details };
+    }
+}
+
+/**
+ * The request itself is invalid (missing files, unknown option values) or
+ * refers to something that does not exist. Carries the HTTP status to use.
+ */
+export class RequestError extends Error {
+    readonly code: RequestErrorCode;
+    readonly status: number;
+    readonly details: Record<string, unknown>;
+
+    constructor(code: RequestErrorCode, message: string, details: Record<string, unknown> = {}, status: number = 400) {
+        super(message);
+        this.name = 'RequestError';
+        this.code = code;
+        this.status = status;
+        this.details = details;
+    }
+
+    toJSON(): ErrorBody {
+        return { code: this.code, message: this.message, details: this.details };
+    }
+}
@@ -0,0 +1,242 @@
+import fs from 'fs';
+import path from 'path';
+import { ExtractionError, ExtractionErrorCode } from './errors';
+import { Logger } from './logger';
+import { ProcessOptions, WavProcessor } from './wav-processor';
+
+export interface WatchOptions extends ProcessOptions {
+    directories: string[];
+    // JSON file remembering which recordings were already processed
+    stateFile: string;
+    intervalMs: number;
+    // How long a file must stay unchanged before it counts as fully copied
+    settleMs: number;
+    logger: Logger;
+}
+
+interface WatchStateEntry {
+    size: number;
+    mtimeMs: number;
+    processedAt: string;
+    outputFile?: string;
+    markerCount?: number;
+    detector?: string;
+    warnings?: string[];
+    error?: string;
+    errorCode?: ExtractionErrorCode;
+}
+
+interface FileSnapshot {
+    size: number;
+    mtimeMs: number;
+}
+
+/**
+ * Polls directories for new WAV files and writes a label file next to each
+ * one. Polling instead of fs.watch also works on network shares and docker
+ * volumes, where change events are unreliable.
+ */
+export class FolderWatcher {
+    private state: Record<string, WatchStateEntry> = {};
+    // Files seen in the previous scan that were not yet processed
+    private pending = new Map<string, FileSnapshot>();
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    constructor(private readonly options: WatchOptions) {}
+
+    start(): void {
+        this.state = this.loadState();
+        this.running = true;
+
+        this.options.logger.info('Watching for new WAV files', { directories: this.options.directories });
+        this.scheduleScan(0);
+    }
+
+    stop(): void {
+        this.running = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async scan(): Promise<void> {
+        const seen = new Set<string>();
+
+        for (const directory of this.options.directories) {
+            for (const filePath of this.findWavFiles(directory)) {
+                seen.add(filePath);
+                await this.check(filePath);
+            }
+        }
+
+        // Forget pending files that were deleted or renamed before they settled
+        for (const filePath of this.pending.keys()) {
+            if (!seen.has(filePath)) {
+                this.pending.delete(filePath);
+            }
+        }
+    }
+
+    private scheduleScan(delayMs: number): void {
+        // Chain scans so a slow extraction never overlaps the next scan
+        this.timer = setTimeout(async () => {
+            try {
+                await this.scan();
+            } catch (error) {
+                this.options.logger.error('Watch folder scan failed', { error });
+            }
+
+            if (this.running) {
+                this.scheduleScan(this.options.intervalMs);
+            }
+        }, delayMs);
+    }
+
+    private async check(filePath: string): Promise<void> {
+        let stat: fs.Stats;
+        try {
+            stat = fs.statSync(filePath);
+        } catch (error) {
+            // Deleted between directory listing and stat
+            return;
+        }
+
+        const snapshot: FileSnapshot = { size: stat.size, mtimeMs: stat.mtimeMs };
+        const processed = this.state[filePath];
+        if (processed && processed.size === snapshot.size && processed.mtimeMs === snapshot.mtimeMs) {
+            return;
+        }
+
+        // A file still being copied changes size or mtime between scans
+        const previous = this.pending.get(filePath);
+        this.pending.set(filePath, snapshot);
+
+        const unchanged = previous && previous.size === snapshot.size && previous.mtimeMs === snapshot.mtimeMs;
+        if (!unchanged || Date.now() - snapshot.mtimeMs < this.options.settleMs || !this.hasCompleteHeader(filePath, snapshot.size)) {
+            return;
+        }
+
+        this.pending.delete(filePath);
+        await this.process(filePath, snapshot);
+    }
+
+    private async process(filePath: string, snapshot: FileSnapshot): Promise<void> {
+        const entry: WatchStateEntry = { ...snapshot, processedAt: new Date().toISOString() };
+
+        try {
+            const result = await WavProcessor.process(filePath, path.basename(filePath), {
+                ...this.options,
+                outputDir: path.dirname(filePath)
+            });
+
+            entry.outputFile = result.outputFilePath;
+            entry.markerCount = result.markerCount;
+            entry.detector = result.detection.detector;
+            entry.warnings = result.warnings;
+            this.options.logger.info('Label file written', {
+                file: this.loggedPath(filePath),
+                output: this.loggedPath(result.outputFilePath),
+                markerCount: result.markerCount
+            });
+        } catch (error) {
+            // Recorded so the file is not retried until it changes
+            const extractionError = ExtractionError.from(error);
+            entry.error = extractionError.message;
+            entry.errorCode = extractionError.code;
+            this.options.logger.warn('Extraction failed', { file: this.loggedPath(filePath), code: entry.errorCode, error: entry.error });
+        }
+
+        this.state[filePath] = entry;
+        this.saveState();
+    }
+
+    // Like the server, file names are only logged at debug level
+    private loggedPath(filePath: string): string | undefined {
+        return this.options.logger.enabled('debug') ? filePath : undefined;
+    }
+
+    /**
+     * The RIFF size is written last by most recorders and copy tools; a
+     * header claiming more bytes than the file holds means it is incomplete.
+     * RF64/BW64 files keep the size in the ds64 chunk that follows.
+     */
+    private hasCompleteHeader(filePath: string, size: number): boolean {
+        const header = Buffer.alloc(28);
+        let bytesRead: number;
+
+        try {
+            const fd = fs.openSync(filePath, 'r');
+            try {
+                bytesRead = fs.readSync(fd, header, 0, header.length, 0);
+            } finally {
+                fs.closeSync(fd);
+            }
+        } catch (error) {
+            // Removed or locked by the copying process; try again next scan
+            return false;
+        }
+
+        if (bytesRead < 8) return false;
+
+        const container = header.toString('ascii', 0, 4);
+        if (container === 'RF64' || container === 'BW64') {
+            if (bytesRead < 28 || header.toString('ascii', 12, 16) !== 'ds64') return false;
+
+            const riffSize = header.readUInt32LE(24) * 0x100000000 + header.readUInt32LE(20);
+            return riffSize === 0 || riffSize + 8 <= size;
+        }
+
+        if (container !== 'RIFF') {
+            // Not a RIFF file; let the processor report it
+            return true;
+        }
+
+        const riffSize = header.readUInt32LE(4);
+        return riffSize === 0 || riffSize + 8 <= size;
+    }
+
+    private findWavFiles(directory: string): string[] {
+        const wavFiles: string[] = [];
+        let entries: fs.Dirent[];
+
+        try {
+            entries = fs.readdirSync(directory, { withFileTypes: true });
+        } catch (error) {
+            this.options.logger.warn('Cannot read watched directory', { directory, error: error instanceof Error ? error.message : error });
+            return wavFiles;
+        }
+
+        for (const entry of entries) {
+            const entryPath = path.resolve(directory, entry.name);
+            if (entry.isDirectory()) {
+                wavFiles.push(...this.findWavFiles(entryPath));
+            } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.wav') && !entry.name.startsWith('._')) {
+                wavFiles.push(entryPath);
+            }
+        }
+
+        return wavFiles;
+    }
+
+    private loadState(): Record<string, WatchStateEntry> {
+        if (!fs.existsSync(this.options.stateFile)) {
+            return {};
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(this.options.stateFile, 'utf8')).files || {};
+        } catch (error) {
+            this.options.logger.warn('Ignoring unreadable state file', { stateFile: this.options.stateFile, error });
+            return {};
+        }
+    }
+
+    private saveState(): void {
+        // Write to a temporary file first so a crash never leaves broken JSON behind
+        const tempFile = `${this.options.stateFile}.tmp`;
+        fs.writeFileSync(tempFile, JSON.stringify({ files: this.state }, null, 2), 'utf8');
+        fs.renameSync(tempFile, this.options.stateFile);
+    }
+}
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import { ExtractionError } from './errors';
+import { WavProcessor } from './wav-processor';
+
+export type CheckStatus = 'ok' | 'failed' | 'skipped';
+
+export interface CheckResult {
+    status: CheckStatus;
+    // Check-specific details, e.g. the bwfmetaedit version or free space
+    [field: string]: unknown;
+}
+
+export interface HealthReport {
+    status: 'ok' | 'failed';
+    checks: {
+        bwfmetaedit: CheckResult;
+        disk: CheckResult;
+    };
+}
+
+export interface HealthOptions {
+    // Whether bwfmetaedit is used as a fallback and so has to be runnable
+    bwfMetaEdit: boolean;
+    // Directories uploads and results are written to, by the name reported
+    directories: Record<string, string>;
+    minFreeBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Checks what the server needs to convert files: a runnable bwfmetaedit
+ * when the fallback is enabled, and writable directories with free space.
+ */
+export class HealthCheck {
+
+    static async run(options: HealthOptions): Promise<HealthReport> {
+        const [bwfmetaedit, disk] = await Promise.all([
+            this.checkBwfMetaEdit(options.bwfMetaEdit),
+            this.checkDisk(options.directories, options.minFreeBytes)
+        ]);
+
+        return {
+            status: bwfmetaedit.status === 'failed' || disk.status === 'failed' ? 'failed' : 'ok',
+            checks: { bwfmetaedit, disk }
+        };
+    }
+
+    private static async checkBwfMetaEdit(enabled: boolean): Promise<CheckResult> {
+        if (!enabled) {
+            // Markers are read natively; bwfmetaedit is only needed for the fallback
+            return { status: 'skipped' };
+        }
+
+        try {
+            return { status: 'ok', version: await WavProcessor.bwfMetaEditVersion() };
+        } catch (error) {
+            return { status: 'failed', error: ExtractionError.from(error).toJSON() };
+        }
+    }
+
+    private static async checkDisk(directories: Record<string, string>, minFreeBytes: number): Promise<CheckResult> {
+        const results = await Promise.all(Object.entries(directories).map(async ([name, directory]) => {
+            try {
+                // Both directories are otherwise created on first use
+                await fs.promises.mkdir(directory, { recursive: true });
+                await fs.promises.access(directory, fs.constants.W_OK);
+                const stats = await fs.promises.statfs(directory);
+                const freeBytes = stats.bavail * stats.bsize;
+
+                return { name, ok: freeBytes >= minFreeBytes, freeMb: Math.floor(freeBytes / MB) };
+            } catch (error) {
+                // Reported by code only; the message would reveal the server's paths
+                return { name, ok: false, error: (error as NodeJS.ErrnoException).code || 'UNKNOWN' };
+            }
+        }));
+
+        return {
+            status: results.every(result => result.ok) ? 'ok' : 'failed',
+            minFreeMb: Math.ceil(minFreeBytes / MB),
+            directories: Object.fromEntries(results.map(({ name, ok, ...result }) => [name, result]))
+        };
+    }
+}
@@ -0,0 +1,143 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { ErrorBody, ExtractionError } from './errors';
+
+export type FileStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface FileJob {
+    originalFile: string;
+    status: FileStatus;
+    // Set when the file failed
+    error?: ErrorBody;
+    // Fields returned by the task, e.g. labelsFile and downloadUrl
+    [field: string]: unknown;
+}
+
+export interface Job {
+    id: string;
+    createdAt: string;
+    finishedAt?: string;
+    files: FileJob[];
+}
+
+export interface JobSummary extends Job {
+    status: 'running' | 'finished';
+    total: number;
+    completed: number;
+    failed: number;
+}
+
+export interface FileTask {
+    originalFile: string;
+    // Resolves with the fields to merge into the file's entry; a rejection marks it failed
+    run(): Promise<Record<string, unknown>>;
+}
+
+interface QueuedTask {
+    job: Job;
+    file: FileJob;
+    task: FileTask;
+}
+
+/**
+ * Runs file tasks from all jobs with a bounded number executing at once.
+ * Emits `update` with the job whenever one of its files changes status, and
+ * `fileFinished` with the job, the file and its run time in milliseconds
+ * once a file is done or has failed.
+ */
+export class JobQueue extends EventEmitter {
+    private jobs = new Map<string, Job>();
+    private queue: QueuedTask[] = [];
+    private active = 0;
+
+    constructor(private readonly concurrency: number, private readonly retentionMs: number) {
+        super();
+        // Every open SSE connection listens for updates
+        this.setMaxListeners(0);
+    }
+
+    createJob(tasks: FileTask[]): Job {
+        const job: Job = {
+            id: randomUUID(),
+            createdAt: new Date().toISOString(),
+            files: tasks.map(task => ({ originalFile: task.originalFile, status: 'queued' }))
+        };
+
+        this.jobs.set(job.id, job);
+        tasks.forEach((task, index) => this.queue.push({ job, file: job.files[index], task }));
+        this.pump();
+
+        return job;
+    }
+
+    getJob(id: string): Job | undefined {
+        return this.jobs.get(id);
+    }
+
+    isFinished(job: Job): boolean {
+        return job.files.every(file => file.status === 'done' || file.status === 'failed');
+    }
+
+    summarize(job: Job): JobSummary {
+        return {
+            ...job,
+            status: this.isFinished(job) ? 'finished' : 'running',
+            total: job.files.length,
+            completed: job.files.filter(file => file.status === 'done' || file.status === 'failed').length,
+            failed: job.files.filter(file => file.status === 'failed').length
+        };
+    }
+
+    waitFor(job: Job): Promise<Job> {
+        if (this.isFinished(job)) {
+            return Promise.resolve(job);
+        }
+
+        return new Promise(resolve => {
+            const onUpdate = (updated: Job) => {
+                if (updated.id === job.id && this.isFinished(updated)) {
+                    this.off('update', onUpdate);
+                    resolve(updated);
+                }
+            };
+            this.on('update', onUpdate);
+        });
+    }
+
+    private pump(): void {
+        while (this.active < this.concurrency && this.queue.length > 0) {
+            const next = this.queue.shift() as QueuedTask;
+            this.active++;
+
+            this.run(next).finally(() => {
+                this.active--;
+                this.pump();
+            });
+        }
+    }
+
+    private async run({ job, file, task }: QueuedTask): Promise<void> {
+        file.status = 'processing';
+        this.emit('update', job);
+        const started = Date.now();
+
+        try {
+            Object.assign(file, await task.run());
+            file.status = 'done';
+        } catch (error) {
+            file.status = 'failed';
+            file.error = ExtractionError.from(error).toJSON();
+        }
+
+        this.emit('fileFinished', job, file, Date.now() - started);
+
+        if (this.isFinished(job)) {
+            job.finishedAt = new Date().toISOString();
+
+            // Keep finished jobs around long enough for clients to fetch results
+            setTimeout(() => this.jobs.delete(job.id), this.retentionMs).unref();
+        }
+
+        this.emit('update', job);
+    }
+}
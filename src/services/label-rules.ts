@@ -0,0 +1,265 @@
+import fs from 'fs';
+import path from 'path';
+import vm from 'vm';
+import { ExtractionError, RequestError } from './errors';
+import { Marker } from './marker-converter';
+import { Timecode, TimecodeRate } from './timecode';
+
+/**
+ * Per-conversion rules applied to the detected markers before formatting,
+ * in this order: drop, offset, merge, template.
+ */
+export interface LabelRuleOptions {
+    // New label, e.g. "{n} {original}"; see PLACEHOLDERS
+    template?: string;
+    // Markers whose original label matches this regular expression are removed
+    dropPattern?: string;
+    // Markers less than this many ms after the previous kept marker are merged into it
+    mergeWithinMs?: number;
+    // Moves every marker; negative values move them earlier
+    offsetMs?: number;
+}
+
+export interface LabelContext {
+    originalFileName: string;
+    // Recording start in samples at the file's rate, from the bext TimeReference
+    startSample: number | null;
+    fileSampleRate: number | null;
+    frameRate: TimecodeRate;
+}
+
+const PLACEHOLDERS = ['n', 'time', 'timecode', 'file', 'original'];
+
+// dropPattern and the labels both come from the client, so a pattern that
+// backtracks catastrophically must not block the event loop
+const DROP_PATTERN_TIMEOUT_MS = 100;
+const MATCH_LABELS = new vm.Script('labels.map(label => pattern.test(label))');
+
+const BUILT_IN_PRESETS: Record<string, LabelRuleOptions> = {
+    numbered: { template: '{n} {original}' },
+    timecode: { template: '{timecode} {original}' },
+    'file-and-number': { template: '{file} {n}' },
+    // Recorders that write the same marker to every track or press twice
+    'merge-duplicates': { mergeWithinMs: 100 }
+};
+
+export class LabelRules {
+
+    private static presets: Record<string, LabelRuleOptions> = { ...BUILT_IN_PRESETS };
+
+    static register(name: string, rules: LabelRuleOptions): void {
+        if (Object.prototype.hasOwnProperty.call(this.presets, name)) {
+            throw new Error(`A label preset named "${name}" is already registered`);
+        }
+        this.presets[name] = this.validate(rules, name);
+    }
+
+    /**
+     * Registers every preset of a JSON file shaped like
+     * `{ "name": { "template": "...", "mergeWithinMs": 500 } }`.
+     */
+    static loadPresets(filePath: string): void {
+        const presets = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        if (!presets || typeof presets !== 'object' || Array.isArray(presets)) {
+            throw new Error(`${path.basename(filePath)} must contain an object of named label presets`);
+        }
+
+        for (const [name, rules] of Object.entries(presets)) {
+            this.register(name, (rules || {}) as LabelRuleOptions);
+        }
+    }
+
+    static get presetNames(): string[] {
+        return Object.keys(this.presets);
+    }
+
+    static get all(): Record<string, LabelRuleOptions> {
+        return { ...this.presets };
+    }
+
+    /**
+     * Combines a named preset with individual rules given by a request or
+     * the CLI; individual rules override the preset's. Values may be
+     * strings, as multipart fields are. Returns undefined if no rule is set.
+     */
+    static parseOptions(preset: unknown, fields: Partial<Record<keyof LabelRuleOptions, unknown>> = {}): LabelRuleOptions | undefined {
+        let base: LabelRuleOptions = {};
+
+        if (preset !== undefined && preset !== '' && preset !== 'none') {
+            if (typeof preset !== 'string' || !Object.prototype.hasOwnProperty.call(this.presets, preset)) {
+                throw new RequestError('INVALID_LABEL_RULES', `Unknown label preset. Use one of: ${this.presetNames.join(', ')}`, {
+                    field: 'labelPreset',
+                    value: preset,
+                    allowed: this.presetNames
+                });
+            }
+            base = this.presets[preset];
+        }
+
+        const given: LabelRuleOptions = {};
+        if (fields.template !== undefined && fields.template !== '') given.template = fields.template as string;
+        if (fields.dropPattern !== undefined && fields.dropPattern !== '') given.dropPattern = fields.dropPattern as string;
+        if (fields.mergeWithinMs !== undefined && fields.mergeWithinMs !== '') given.mergeWithinMs = this.toNumber(fields.mergeWithinMs, 'mergeWithinMs');
+        if (fields.offsetMs !== undefined && fields.offsetMs !== '') given.offsetMs = this.toNumber(fields.offsetMs, 'offsetMs');
+
+        const rules = this.validate({ ...base, ...given });
+        return Object.keys(rules).length > 0 ? rules : undefined;
+    }
+
+    static apply(markers: Marker[], rules: LabelRuleOptions, context: LabelContext, warnings: string[]): Marker[] {
+        let result = markers;
+
+        if (rules.dropPattern) {
+            const dropped = this.matchLabels(rules.dropPattern, result.map(marker => marker.label));
+            result = result.filter((marker, index) => !dropped[index]);
+        }
+
+        if (rules.offsetMs) {
+            const moved = result.map(marker => ({ ...marker, samplePosition: marker.samplePosition + this.toSamples(rules.offsetMs as number, marker.sampleRate) }));
+            result = moved.filter(marker => marker.samplePosition >= 0);
+
+            if (result.length < moved.length) {
+                warnings.push(`${moved.length - result.length} markers moved before the start of the file were dropped`);
+            }
+        }
+
+        result = [...result].sort((a, b) => a.samplePosition - b.samplePosition);
+
+        if (rules.mergeWithinMs) {
+            result = this.merge(result, rules.mergeWithinMs);
+        }
+
+        if (rules.template) {
+            result = this.applyTemplate(result, rules.template, context, warnings);
+        }
+
+        if (markers.length > 0 && result.length === 0) {
+            warnings.push('The label rules removed every marker');
+        }
+
+        return result;
+    }
+
+    /**
+     * Tests every label against the pattern inside a VM context, whose
+     * timeout also interrupts a regular expression that is still matching.
+     */
+    private static matchLabels(pattern: string, labels: string[]): boolean[] {
+        try {
+            return MATCH_LABELS.runInNewContext({ pattern: new RegExp(pattern), labels }, { timeout: DROP_PATTERN_TIMEOUT_MS });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+                throw new ExtractionError('DROP_PATTERN_TIMEOUT', { dropPattern: pattern, timeoutMs: DROP_PATTERN_TIMEOUT_MS });
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Keeps the first marker of each cluster with its label; a region grows
+     * to cover the markers merged into it.
+     */
+    private static merge(markers: Marker[], withinMs: number): Marker[] {
+        const merged: Marker[] = [];
+
+        for (const marker of markers) {
+            const kept = merged[merged.length - 1];
+            const distance = kept ? (marker.samplePosition / marker.sampleRate - kept.samplePosition / kept.sampleRate) * 1000 : Infinity;
+
+            if (distance >= withinMs) {
+                merged.push({ ...marker });
+                continue;
+            }
+
+            const end = this.endSeconds(marker) * kept.sampleRate;
+            if (kept.sampleLength !== undefined || marker.sampleLength !== undefined) {
+                kept.sampleLength = Math.max(kept.sampleLength || 0, Math.round(end) - kept.samplePosition);
+            }
+        }
+
+        return merged;
+    }
+
+    private static applyTemplate(markers: Marker[], template: string, context: LabelContext, warnings: string[]): Marker[] {
+        const file = path.basename(context.originalFileName, path.extname(context.originalFileName));
+
+        if (template.includes('{timecode}') && context.startSample === null) {
+            warnings.push('File has no bext time reference; {timecode} counts from the start of the file');
+        }
+
+        return markers.map((marker, index) => {
+            // bext TimeReference counts samples at the file's own rate
+            const start = context.startSample === null
+                ? 0
+                : Math.round(context.startSample * marker.sampleRate / (context.fileSampleRate || marker.sampleRate));
+
+            const values: Record<string, string> = {
+                n: String(index + 1),
+                time: Timecode.formatTimeOfDay(marker.samplePosition, marker.sampleRate),
+                timecode: Timecode.formatSamples(start + marker.samplePosition, marker.sampleRate, context.frameRate),
+                file,
+                original: marker.label
+            };
+
+            const label = template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match).trim();
+            return { ...marker, label };
+        });
+    }
+
+    private static validate(rules: LabelRuleOptions, presetName?: string): LabelRuleOptions {
+        const fail = (field: keyof LabelRuleOptions, message: string, value: unknown): never => {
+            throw new RequestError('INVALID_LABEL_RULES', presetName ? `Label preset ${presetName}: ${message}` : message, { field, value });
+        };
+
+        if (rules.template !== undefined) {
+            if (typeof rules.template !== 'string') fail('template', 'template must be a string', rules.template);
+
+            const unknown = Array.from(rules.template.matchAll(/\{(\w+)\}/g), match => match[1]).filter(name => !PLACEHOLDERS.includes(name));
+            if (unknown.length > 0) {
+                fail('template', `Unknown placeholder {${unknown[0]}}. Use: ${PLACEHOLDERS.map(name => `{${name}}`).join(', ')}`, rules.template);
+            }
+        }
+
+        if (rules.dropPattern !== undefined) {
+            if (typeof rules.dropPattern !== 'string') fail('dropPattern', 'dropPattern must be a string', rules.dropPattern);
+
+            try {
+                new RegExp(rules.dropPattern);
+            } catch (error) {
+                fail('dropPattern', `dropPattern is not a valid regular expression: ${error instanceof Error ? error.message : error}`, rules.dropPattern);
+            }
+        }
+
+        if (rules.mergeWithinMs !== undefined && (typeof rules.mergeWithinMs !== 'number' || !Number.isFinite(rules.mergeWithinMs) || rules.mergeWithinMs < 0)) {
+            fail('mergeWithinMs', 'mergeWithinMs must be a number of milliseconds of at least 0', rules.mergeWithinMs);
+        }
+
+        if (rules.offsetMs !== undefined && (typeof rules.offsetMs !== 'number' || !Number.isFinite(rules.offsetMs))) {
+            fail('offsetMs', 'offsetMs must be a number of milliseconds', rules.offsetMs);
+        }
+
+        // Only the known rules, so a preset file cannot add anything else
+        const validated: LabelRuleOptions = {};
+        if (rules.template !== undefined) validated.template = rules.template;
+        if (rules.dropPattern !== undefined) validated.dropPattern = rules.dropPattern;
+        if (rules.mergeWithinMs !== undefined) validated.mergeWithinMs = rules.mergeWithinMs;
+        if (rules.offsetMs !== undefined) validated.offsetMs = rules.offsetMs;
+        return validated;
+    }
+
+    private static toNumber(value: unknown, field: keyof LabelRuleOptions): number {
+        const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+        if (!Number.isFinite(number)) {
+            throw new RequestError('INVALID_LABEL_RULES', `${field} must be a number of milliseconds`, { field, value });
+        }
+        return number;
+    }
+
+    private static toSamples(ms: number, sampleRate: number): number {
+        return Math.round(ms * sampleRate / 1000);
+    }
+
+    private static endSeconds(marker: Marker): number {
+        return (marker.samplePosition + (marker.sampleLength || 0)) / marker.sampleRate;
+    }
+}
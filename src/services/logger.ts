@@ -0,0 +1,87 @@
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+// `json` writes one object per line for log collectors, `text` a readable line for terminals
+export type LogFormat = 'json' | 'text';
+
+const SEVERITY: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 3 };
+
+/**
+ * Structured logger with a minimum level. Every entry carries a timestamp,
+ * the level, a message and fields; errors and warnings go to stderr.
+ */
+export class Logger {
+
+    static readonly levels = Object.keys(SEVERITY) as LogLevel[];
+
+    constructor(
+        private readonly level: LogLevel = 'info',
+        private readonly format: LogFormat = 'json',
+        private readonly fields: Record<string, unknown> = {}
+    ) {}
+
+    static isLogLevel(value: unknown): value is LogLevel {
+        return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SEVERITY, value);
+    }
+
+    static isLogFormat(value: unknown): value is LogFormat {
+        return value === 'json' || value === 'text';
+    }
+
+    // A logger that adds the given fields to every entry, e.g. the component
+    child(fields: Record<string, unknown>): Logger {
+        return new Logger(this.level, this.format, { ...this.fields, ...fields });
+    }
+
+    enabled(level: LogLevel): boolean {
+        return SEVERITY[level] <= SEVERITY[this.level];
+    }
+
+    error(message: string, fields: Record<string, unknown> = {}): void {
+        this.write('error', message, fields);
+    }
+
+    warn(message: string, fields: Record<string, unknown> = {}): void {
+        this.write('warn', message, fields);
+    }
+
+    info(message: string, fields: Record<string, unknown> = {}): void {
+        this.write('info', message, fields);
+    }
+
+    debug(message: string, fields: Record<string, unknown> = {}): void {
+        this.write('debug', message, fields);
+    }
+
+    private write(level: LogLevel, message: string, fields: Record<string, unknown>): void {
+        if (!this.enabled(level)) return;
+
+        const entry = { ...this.fields, ...fields };
+        const output = SEVERITY[level] <= SEVERITY.warn ? process.stderr : process.stdout;
+
+        if (this.format === 'json') {
+            output.write(`${JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...entry }, Logger.serialize)}\n`);
+            return;
+        }
+
+        const pairs = Object.entries(entry)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => `${key}=${Logger.textValue(value)}`);
+        const prefix = level === 'info' ? '' : `${level.toUpperCase()} `;
+        output.write(`${prefix}${[message, ...pairs].join(' ')}\n`);
+    }
+
+    // Errors have no enumerable fields; ExtractionError and RequestError bring their own toJSON
+    private static serialize(key: string, value: unknown): unknown {
+        if (value instanceof Error && !('toJSON' in value)) {
+            return { name: value.name, message: value.message, stack: value.stack };
+        }
+        return value;
+    }
+
+    private static textValue(value: unknown): string {
+        if (typeof value !== 'string') {
+            return JSON.stringify(value, Logger.serialize);
+        }
+        return /[\s"=]/.test(value) || value === '' ? JSON.stringify(value) : value;
+    }
+}
@@ -2,317 +2,326 @@ import fs from 'fs';
 import path from 'path';
 import { parseString } from 'xml2js';
 import { promisify } from 'util';
+import { BwfMetadata, CuePoint } from './bwf-reader';
+import { ExtractionError, RequestError } from './errors';
+import { DetectionContext, DetectionOptions, DetectionResult, MarkerDetectors } from './marker-detectors';
+import { LabelRuleOptions, LabelRules } from './label-rules';
+import { AudioDuration, MarkerFormatter, OutputFormat } from './marker-formatter';
+import { Timecode, TimecodeOptions, TimecodeRate } from './timecode';
 
 const parseXml = promisify(parseString);
-
-interface Marker {
-    time: number;
+const MAX_CUE_POSITION = 0xFFFFFFFF;
+
+/**
+ * A marker positioned in samples. Seconds are only derived when formatting,
+ * so every output format rounds from the exact sample position.
+ */
+export interface Marker {
+    samplePosition: number;
+    sampleRate: number;
     label: string;
+    // Set for region markers; point markers end where they start
+    sampleLength?: number;
+    // Name of the detector that found the marker, e.g. riff-cue or ixml
+    source?: string;
 }
 
-export class MarkerConverter {
+export interface ConversionOptions extends DetectionOptions {
+    format?: OutputFormat;
+    timecode?: TimecodeOptions;
+    // Template, drop, merge and offset rules applied before the timecode options
+    labelRules?: LabelRuleOptions;
+    // Directory for the output file, 'outputs' by default
+    outputDir?: string;
+    // Convert and report, but do not write the output file
+    dryRun?: boolean;
+}
 
-    static async convertXmlToLabels(xmlFilePath: string, originalFileName: string): Promise<string> {
-        try {
-            // Read the XML file
-            const xmlContent = fs.readFileSync(xmlFilePath, 'utf8');
+export interface ConversionResult {
+    outputFilePath: string;
+    markerCount: number;
+    // The markers as written, after label rules and timecode placement
+    markers: Marker[];
+    // All warnings, including the detector's
+    warnings: string[];
+    detection: DetectionSummary;
+    // End of the audio on the markers' timeline, when known
+    duration?: AudioDuration;
+    // How far the markers were moved from their place in the audio, see markerOffset
+    offset?: AudioDuration;
+}
 
-            // Parse XML to extract markers
-            const markers = await this.parseMarkersFromXml(xmlContent);
+export interface DetectionSummary {
+    // Name of the marker detector whose result was used
+    detector: string;
+    confidence: number;
+    warnings: string[];
+    // Supplementary detectors whose markers were added, e.g. ixml
+    supplements: string[];
+}
 
-            // Check if any markers were found
-            if (markers.length === 0) {
-                throw new Error('NO_MARKERS_FOUND');
-            }
+export class MarkerConverter {
 
-            // Convert markers to Audacity label format
-            const labelsContent = this.formatAsAudacityLabels(markers);
+    /**
+     * @param metadata Chunks read from the same file; its fmt sample rate is
+     *   used for cues given in samples and for converting times in seconds.
+     */
+    static async convertXmlToLabels(xmlFilePath: string, originalFileName: string, metadata: BwfMetadata, options: ConversionOptions = {}): Promise<ConversionResult> {
+        const detection = await this.detectXmlMarkers(xmlFilePath, metadata, options);
+        return this.writeLabels(detection.markers, metadata, originalFileName, options, this.summarize(detection));
+    }
 
-            // Create output file
-            const outputDir = 'outputs';
-            if (!fs.existsSync(outputDir)) {
-                fs.mkdirSync(outputDir, { recursive: true });
-            }
+    static async convertBwfToLabels(metadata: BwfMetadata, originalFileName: string, options: ConversionOptions = {}): Promise<ConversionResult> {
+        const detection = this.detectBwfMarkers(metadata, options);
+        return this.writeLabels(detection.markers, metadata, originalFileName, options, this.summarize(detection));
+    }
 
-            const baseName = path.basename(originalFileName, path.extname(originalFileName));
-            const outputFileName = `${baseName}_markers.txt`;
-            const outputFilePath = path.join(outputDir, outputFileName);
+    static async detectXmlMarkers(xmlFilePath: string, metadata: BwfMetadata, options: DetectionOptions = {}): Promise<DetectionResult> {
+        let xml: any;
+        try {
+            xml = await parseXml(fs.readFileSync(xmlFilePath, 'utf8'));
+        } catch (error) {
+            throw new ExtractionError('INVALID_BWF_XML', { reason: error instanceof Error ? error.message : 'Unknown error' });
+        }
 
-            fs.writeFileSync(outputFilePath, labelsContent, 'utf8');
+        return this.detect({ metadata, xml }, options);
+    }
+
+    static detectBwfMarkers(metadata: BwfMetadata, options: DetectionOptions = {}): DetectionResult {
+        return this.detect({ metadata, xml: null }, options);
+    }
+
+    static summarize(detection: DetectionResult): DetectionSummary {
+        return {
+            detector: detection.detector,
+            confidence: detection.confidence,
+            warnings: detection.warnings,
+            supplements: detection.supplements
+        };
+    }
 
-            return outputFilePath;
+    /**
+     * Writes markers in the chosen format, applying the label rules and
+     * timecode options with the given file's bext and iXML data. Used for
+     * single files and for merged recording sessions.
+     */
+    static writeLabels(markers: Marker[], metadata: BwfMetadata, originalFileName: string, options: ConversionOptions, detection: DetectionSummary, warnings: string[] = [...detection.warnings]): ConversionResult {
+        try {
+            return { ...this.writeLabelsFile(markers, metadata, originalFileName, options, warnings), detection };
         } catch (error) {
-            throw new Error(`Failed to convert XML to labels: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw ExtractionError.from(error);
         }
     }
 
-    private static async parseMarkersFromXml(xmlContent: string): Promise<Marker[]> {
-        try {
-            const result: any = await parseXml(xmlContent);
-            const markers: Marker[] = [];
-
-            // Debug: Log the XML structure to understand what we're working with
-            //console.log('XML parsed result structure:', JSON.stringify(result, null, 2));
-
-            // Try multiple possible XML structures for BWF markers
-
-            // Structure 1: conformance_point_document (from example)
-            if (result.conformance_point_document?.conformance_point_list?.[0]?.conformance_point) {
-                console.log('Found conformance_point_document structure');
-                const conformancePoints = result.conformance_point_document.conformance_point_list[0].conformance_point;
-
-                for (const point of conformancePoints) {
-                    if (point.$?.time && point.$?.marker) {
-                        const timeInSeconds = this.parseTimeToSeconds(point.$.time);
-                        const label = point.$.marker || point.$.name || `Marker ${markers.length + 1}`;
-
-                        markers.push({
-                            time: timeInSeconds,
-                            label: label
-                        });
-                    }
-                }
-            }
+    /**
+     * Parses an Audacity label track into cue points for writing back into a
+     * WAV file. Range labels (end after start) become regions with a length.
+     * With `totalSamples`, labels past the end of the audio are rejected.
+     */
+    static parseAudacityLabels(content: string, sampleRate: number, totalSamples: number | null = null): CuePoint[] {
+        const cuePoints: CuePoint[] = [];
 
-            // Structure 2: BWF_data (alternative structure)
-            if (markers.length === 0 && result.BWF_data?.markers?.[0]?.marker) {
-                console.log('Found BWF_data structure');
-                const markerList = result.BWF_data.markers[0].marker;
-
-                for (const marker of markerList) {
-                    if (marker.position && marker.position[0]) {
-                        const timeInSeconds = this.parseTimeToSeconds(marker.position[0]);
-                        const label = marker.name?.[0] || marker.label?.[0] || `Marker ${markers.length + 1}`;
-
-                        markers.push({
-                            time: timeInSeconds,
-                            label: label
-                        });
-                    }
-                }
-            }
+        for (const [index, line] of content.split(/\r?\n/).entries()) {
+            // Skip blank lines and the frequency lines of spectral selection labels
+            if (!line.trim() || line.startsWith('\\')) continue;
 
-            // Structure 3: Direct markers array
-            if (markers.length === 0 && result.markers) {
-                console.log('Found direct markers structure');
-                const markerArray = Array.isArray(result.markers) ? result.markers : [result.markers];
-
-                for (const marker of markerArray) {
-                    if (marker.marker) {
-                        const markerList = Array.isArray(marker.marker) ? marker.marker : [marker.marker];
-                        for (const m of markerList) {
-                            if (m.$ && (m.$.position || m.$.time)) {
-                                const timeInSeconds = this.parseTimeToSeconds(m.$.position || m.$.time || '0');
-                                const label = m.$.name || m.$.label || m.$.marker || `Marker ${markers.length + 1}`;
-                                markers.push({
-                                    time: timeInSeconds,
-                                    label: label
-                                });
-                            }
-                        }
-                    }
-                }
-            }
+            const [startText, endText, ...labelParts] = line.split('\t');
+            const start = Number(startText);
+            const end = endText === undefined || endText.trim() === '' ? start : Number(endText);
 
-            // Structure 4: BWFMetaEdit XML output structure with Cues
-            if (markers.length === 0 && result.conformance_point_document?.File?.[0]?.Cues?.[0]?.Cue) {
-                console.log('Found BWFMetaEdit Cues structure');
-                const cues = result.conformance_point_document.File[0].Cues[0];
-                const sampleRate = parseFloat(cues.$.samplerate || '44100');
-                const cueArray = Array.isArray(cues.Cue) ? cues.Cue : [cues.Cue];
-
-                for (const cue of cueArray) {
-                    if (cue.Position && cue.Position[0]) {
-                        // Convert sample position to seconds using sample rate
-                        const samplePosition = parseFloat(cue.Position[0]);
-                        const timeInSeconds = samplePosition / sampleRate;
-                        const label = (cue.Label && cue.Label[0]) || `Marker ${markers.length + 1}`;
-
-                        markers.push({
-                            time: timeInSeconds,
-                            label: label
-                        });
-
-                        console.log(`Found cue marker: ${label} at ${timeInSeconds.toFixed(3)}s (sample ${samplePosition})`);
-                    }
-                }
+            if (!startText.trim() || !Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end < start) {
+                throw new ExtractionError('INVALID_LABELS', { lineNumber: index + 1, line });
             }
 
-            // Structure 5: Generic BWFMetaEdit File structure
-            if (markers.length === 0 && result.conformance_point_document?.File) {
-                console.log('Found BWFMetaEdit File structure');
-                const fileData = Array.isArray(result.conformance_point_document.File)
-                    ? result.conformance_point_document.File[0]
-                    : result.conformance_point_document.File;
-
-                // Look for various marker formats in BWFMetaEdit output
-                if (fileData.Core && fileData.Core[0] && fileData.Core[0].bext && fileData.Core[0].bext[0]) {
-                    const bext = fileData.Core[0].bext[0];
-
-                    // Check for CuePoints or similar structures
-                    if (bext.CuePoint || bext.cue || bext.markers) {
-                        const cuePoints = bext.CuePoint || bext.cue || bext.markers;
-                        const cueArray = Array.isArray(cuePoints) ? cuePoints : [cuePoints];
-
-                        for (const cue of cueArray) {
-                            if (cue.$ && cue.$.position) {
-                                const timeInSeconds = this.parseTimeToSeconds(cue.$.position);
-                                const label = cue.$.label || cue.$.name || `Marker ${markers.length + 1}`;
-                                markers.push({
-                                    time: timeInSeconds,
-                                    label: label
-                                });
-                            }
-                        }
-                    }
-                }
-            }
+            const samplePosition = Math.round(start * sampleRate);
+            const sampleLength = Math.round(end * sampleRate) - samplePosition;
 
-            // Structure 6: Generic search for any time/position + label combinations
-            if (markers.length === 0) {
-                console.log('Trying generic marker search');
-                this.searchForMarkersRecursively(result, markers);
+            // cue and ltxt chunks store positions and lengths as 32-bit values
+            if (samplePosition + sampleLength > MAX_CUE_POSITION) {
+                throw new ExtractionError('INVALID_LABELS', { lineNumber: index + 1, line }, 'The label lies beyond the largest cue position a WAV file can store');
+            }
+            if (totalSamples !== null && samplePosition + sampleLength > totalSamples) {
+                throw new ExtractionError('INVALID_LABELS', { lineNumber: index + 1, line, totalSamples }, 'The label lies beyond the end of the audio');
             }
 
-            // Sort markers by time
-            markers.sort((a, b) => a.time - b.time);
+            const label = labelParts.join('\t').trim();
 
-            console.log(`Found ${markers.length} markers:`, markers);
-            return markers;
-        } catch (error) {
-            throw new Error(`XML parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            cuePoints.push({
+                id: cuePoints.length + 1,
+                samplePosition,
+                ...(label ? { label } : {}),
+                ...(sampleLength > 0 ? { sampleLength } : {})
+            });
         }
-    }
 
-    private static searchForMarkersRecursively(obj: any, markers: Marker[], path: string = ''): void {
-        if (typeof obj !== 'object' || obj === null) return;
-
-        for (const [key, value] of Object.entries(obj)) {
-            const currentPath = path ? `${path}.${key}` : key;
-
-            // Look for objects that might represent markers
-            if (typeof value === 'object' && value !== null) {
-                // Check if this object has marker-like properties
-                if (this.isMarkerLike(value)) {
-                    const time = this.extractTime(value);
-                    const label = this.extractLabel(value, markers.length);
-
-                    if (time !== null) {
-                        console.log(`Found potential marker at ${currentPath}:`, { time, label });
-                        markers.push({ time, label });
-                    }
-                }
-
-                // Recursively search in nested objects/arrays
-                if (Array.isArray(value)) {
-                    value.forEach((item, index) => {
-                        this.searchForMarkersRecursively(item, markers, `${currentPath}[${index}]`);
-                    });
-                } else {
-                    this.searchForMarkersRecursively(value, markers, currentPath);
-                }
-            }
-        }
+        return cuePoints;
     }
 
-    private static isMarkerLike(obj: any): boolean {
-        if (typeof obj !== 'object' || obj === null) return false;
+    /**
+     * Validates a marker list edited by a client, e.g. the review table of
+     * the web interface: entries with a label, a sample position and an
+     * optional sample length. `offsetSeconds` moves every marker.
+     */
+    static parseMarkerList(entries: unknown, sampleRate: unknown, offsetSeconds: unknown = 0): Marker[] {
+        if (typeof sampleRate !== 'number' || !Number.isInteger(sampleRate) || sampleRate <= 0) {
+            throw new RequestError('INVALID_MARKERS', 'sampleRate must be a positive integer', { field: 'sampleRate', value: sampleRate });
+        }
+        if (typeof offsetSeconds !== 'number' || !Number.isFinite(offsetSeconds)) {
+            throw new RequestError('INVALID_MARKERS', 'offsetSeconds must be a number', { field: 'offsetSeconds', value: offsetSeconds });
+        }
+        if (!Array.isArray(entries)) {
+            throw new RequestError('INVALID_MARKERS', 'markers must be an array', { field: 'markers' });
+        }
 
-        // Check for common marker properties
-        const timeProps = ['time', 'position', 'offset', 'sample', 'frame'];
-        const labelProps = ['name', 'label', 'title', 'text', 'marker', 'comment'];
+        const offset = Math.round(offsetSeconds * sampleRate);
 
-        const hasTime = timeProps.some(prop =>
-            obj.hasOwnProperty(prop) || (obj.$ && obj.$.hasOwnProperty(prop))
-        );
+        return entries.map((entry, index) => {
+            const { label, samplePosition, sampleLength } = (entry || {}) as Record<string, unknown>;
 
-        const hasLabel = labelProps.some(prop =>
-            obj.hasOwnProperty(prop) || (obj.$ && obj.$.hasOwnProperty(prop))
-        );
+            if (typeof label !== 'string') {
+                throw new RequestError('INVALID_MARKERS', `Marker ${index + 1} has no label`, { index, field: 'label' });
+            }
+            if (typeof samplePosition !== 'number' || !Number.isInteger(samplePosition)) {
+                throw new RequestError('INVALID_MARKERS', `Marker ${index + 1} has no valid samplePosition`, { index, field: 'samplePosition' });
+            }
+            if (sampleLength !== undefined && (typeof sampleLength !== 'number' || !Number.isInteger(sampleLength) || sampleLength < 0)) {
+                throw new RequestError('INVALID_MARKERS', `Marker ${index + 1} has an invalid sampleLength`, { index, field: 'sampleLength' });
+            }
+            if (samplePosition + offset < 0) {
+                throw new RequestError('INVALID_MARKERS', `Marker ${index + 1} would start before the beginning of the file`, { index, field: 'samplePosition' });
+            }
 
-        return hasTime || hasLabel;
+            return {
+                label,
+                samplePosition: samplePosition + offset,
+                sampleRate,
+                ...(sampleLength ? { sampleLength } : {})
+            };
+        }).sort((a, b) => a.samplePosition - b.samplePosition);
     }
 
-    private static extractTime(obj: any): number | null {
-        const timeProps = ['time', 'position', 'offset', 'sample', 'frame'];
+    private static detect(context: DetectionContext, options: DetectionOptions): DetectionResult {
+        try {
+            // The registry picks the most confident detector; throws NO_MARKERS_FOUND if none matched
+            return MarkerDetectors.detect(context, options);
+        } catch (error) {
+            throw ExtractionError.from(error);
+        }
+    }
 
-        for (const prop of timeProps) {
-            let value = obj[prop] || (obj.$ && obj.$[prop]);
+    /**
+     * Applies the label rules and then the timecode options to detected
+     * markers. Warnings, e.g. about a missing bext chunk, are appended.
+     */
+    static transform(markers: Marker[], metadata: BwfMetadata, originalFileName: string, options: ConversionOptions, warnings: string[]): Marker[] {
+        const frameRate = this.frameRate(metadata, options);
+
+        if (options.labelRules) {
+            markers = LabelRules.apply(markers, options.labelRules, {
+                originalFileName,
+                startSample: Timecode.startSample(metadata),
+                fileSampleRate: metadata.format?.sampleRate || null,
+                frameRate
+            }, warnings);
+        }
 
-            if (value !== undefined) {
-                if (Array.isArray(value)) value = value[0];
-                if (typeof value === 'string' || typeof value === 'number') {
-                    return this.parseTimeToSeconds(value.toString());
-                }
-            }
+        if (options.timecode) {
+            markers = this.applyTimecode(markers, metadata, options.timecode, frameRate, warnings);
         }
 
-        return null;
+        return markers;
     }
 
-    private static extractLabel(obj: any, index: number): string {
-        const labelProps = ['name', 'label', 'title', 'text', 'marker', 'comment'];
-
-        for (const prop of labelProps) {
-            let value = obj[prop] || (obj.$ && obj.$[prop]);
+    // The requested rate, else the one stamped in the iXML chunk
+    static frameRate(metadata: BwfMetadata, options: ConversionOptions): TimecodeRate {
+        return options.timecode?.frameRate || Timecode.rateFromIxml(metadata) || Timecode.DEFAULT_RATE;
+    }
 
-            if (value !== undefined) {
-                if (Array.isArray(value)) value = value[0];
-                if (typeof value === 'string' && value.trim()) {
-                    return value.trim();
-                }
-            }
+    /**
+     * End of the audio in samples, from the `data` chunk size. With
+     * timecode shift it is moved onto the time-of-day timeline as well.
+     */
+    static audioDuration(metadata: BwfMetadata, timecode: TimecodeOptions | undefined): AudioDuration | undefined {
+        const format = metadata.format;
+        if (!format || !format.sampleRate || !format.blockAlign || metadata.dataSize === null) {
+            return undefined;
         }
 
-        return `Marker ${index + 1}`;
+        const frames = Math.floor(metadata.dataSize / format.blockAlign);
+        const startSample = timecode?.placement === 'shift' ? Timecode.startSample(metadata) : null;
+        return { samples: frames + (startSample || 0), sampleRate: format.sampleRate };
     }
 
-    private static parseTimeToSeconds(timeString: string): number {
-        // Handle different time formats
-        // Examples: "00:01:23.456", "83.456", "1:23.456"
+    /**
+     * How far transform() moves every marker from its place in the audio:
+     * the timecode shift plus the offsetMs label rule, at the file's rate.
+     */
+    static markerOffset(metadata: BwfMetadata, options: ConversionOptions): AudioDuration | undefined {
+        const sampleRate = metadata.format?.sampleRate;
+        if (!sampleRate) return undefined;
+
+        const startSample = options.timecode?.placement === 'shift' ? Timecode.startSample(metadata) || 0 : 0;
+        const offsetSamples = Math.round((options.labelRules?.offsetMs || 0) * sampleRate / 1000);
+        return { samples: startSample + offsetSamples, sampleRate };
+    }
 
-        if (typeof timeString === 'number') {
-            return timeString;
-        }
+    private static writeLabelsFile(markers: Marker[], metadata: BwfMetadata, originalFileName: string, options: ConversionOptions, warnings: string[]): Omit<ConversionResult, 'detection'> {
+        const format = options.format || 'audacity';
 
-        // If it's a simple number string (seconds)
-        if (/^\d+\.?\d*$/.test(timeString)) {
-            return parseFloat(timeString);
-        }
+        markers = this.transform(markers, metadata, originalFileName, options, warnings);
+        const duration = this.audioDuration(metadata, options.timecode);
+
+        // Convert markers to the requested output format
+        const labelsContent = MarkerFormatter.format(markers, format, originalFileName, {
+            frameRate: this.frameRate(metadata, options),
+            duration,
+            warnings
+        });
 
-        // Handle HH:MM:SS.mmm format
-        if (timeString.includes(':')) {
-            const parts = timeString.split(':');
-            let seconds = 0;
-
-            if (parts.length === 3) {
-                // HH:MM:SS.mmm
-                seconds += parseFloat(parts[0]) * 3600; // hours
-                seconds += parseFloat(parts[1]) * 60;   // minutes
-                seconds += parseFloat(parts[2]);        // seconds
-            } else if (parts.length === 2) {
-                // MM:SS.mmm
-                seconds += parseFloat(parts[0]) * 60;   // minutes
-                seconds += parseFloat(parts[1]);        // seconds
+        const outputDir = options.outputDir || 'outputs';
+        const baseName = path.basename(originalFileName, path.extname(originalFileName));
+        const outputFileName = MarkerFormatter.outputFileName(baseName, format);
+        const outputFilePath = path.join(outputDir, outputFileName);
+
+        if (!options.dryRun) {
+            // Create output file
+            if (!fs.existsSync(outputDir)) {
+                fs.mkdirSync(outputDir, { recursive: true });
             }
 
-            return seconds;
+            fs.writeFileSync(outputFilePath, labelsContent, 'utf8');
         }
 
-        // Default: try to parse as float
-        return parseFloat(timeString) || 0;
+        return { outputFilePath, markerCount: markers.length, markers, warnings, duration, offset: this.markerOffset(metadata, options) };
     }
 
-    private static formatAsAudacityLabels(markers: Marker[]): string {
-        // Audacity label format: start_time\tend_time\tlabel
-        // For point markers, start_time and end_time are the same
+    /**
+     * Places markers on the time-of-day timeline given by the bext
+     * TimeReference, either by shifting them or by prefixing their labels.
+     */
+    private static applyTimecode(markers: Marker[], metadata: BwfMetadata, timecode: TimecodeOptions, frameRate: TimecodeRate, warnings: string[]): Marker[] {
+        const startSample = Timecode.startSample(metadata);
 
-        const lines = markers.map(marker => {
-            // Format time to 6 decimal places
-            const timeString = marker.time.toFixed(6);
-            return `${timeString}\t${timeString}\t${marker.label}`;
-        });
+        if (startSample === null) {
+            warnings.push('File has no bext time reference; markers are relative to the start of the file');
+            return markers;
+        }
+
+        return markers.map(marker => {
+            // bext TimeReference counts samples at the file's own rate
+            const fileRate = metadata.format?.sampleRate || marker.sampleRate;
+            const offset = Math.round(startSample * marker.sampleRate / fileRate);
+
+            if (timecode.placement === 'shift') {
+                return { ...marker, samplePosition: marker.samplePosition + offset };
+            }
+
+            const absolute = marker.samplePosition + offset;
+            const stamp = timecode.style === 'smpte'
+                ? Timecode.formatSamples(absolute, marker.sampleRate, frameRate)
+                : Timecode.formatTimeOfDay(absolute, marker.sampleRate);
 
-        return lines.join('\n') + '\n';
+            return { ...marker, label: `${stamp} ${marker.label}` };
+        });
     }
-}
\ No newline at end of file
+}
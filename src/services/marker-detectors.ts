@@ -0,0 +1,478 @@
+import { BwfMetadata } from './bwf-reader';
+import { ExtractionError } from './errors';
+import { Marker } from './marker-converter';
+import { RecorderMetadata, TakeInfo } from './recorder-metadata';
+
+/**
+ * What a detector gets to look at: the chunks read natively from the WAV
+ * and, when the bwfmetaedit fallback ran, its XML report parsed by xml2js.
+ */
+export interface DetectionContext {
+    metadata: BwfMetadata;
+    xml: any | null;
+}
+
+export interface Detection {
+    markers: Marker[];
+    // 0..1; how sure the detector is that it read the markers correctly
+    confidence: number;
+    warnings: string[];
+    // Describe the whole recording rather than a point in it, e.g. the take
+    // marker; added to the markers of other detectors but never found alone
+    annotations?: Marker[];
+}
+
+export interface MarkerDetector {
+    name: string;
+    // What the detector recognizes, shown in diagnostics
+    description: string;
+    // Heuristics that guess at unknown structures and can be switched off
+    generic?: boolean;
+    // Adds its markers to those of the chosen detector instead of competing with it
+    supplementary?: boolean;
+    // Returns null when the input does not contain the structure the detector knows
+    detect(context: DetectionContext): Detection | null;
+}
+
+export interface DetectionOptions {
+    // Allow generic heuristics when no specific detector matches (default: true)
+    genericDetection?: boolean;
+    // Receives progress messages; nothing is logged without it
+    log?: (message: string) => void;
+}
+
+export interface DetectionResult extends Omit<Detection, 'annotations'> {
+    detector: string;
+    // Supplementary detectors whose markers were added
+    supplements: string[];
+    // Every detector that recognized something, best first
+    candidates: { detector: string; confidence: number; markerCount: number }[];
+}
+
+const TIME_PROPS = ['time', 'position', 'offset', 'sample', 'frame'];
+const LABEL_PROPS = ['name', 'label', 'title', 'text', 'marker', 'comment'];
+
+const BUILT_IN_DETECTORS: MarkerDetector[] = [
+    {
+        name: 'riff-cue',
+        description: 'cue points with labl/note/ltxt annotations read directly from the WAV chunks',
+        detect: ({ metadata }) => {
+            if (metadata.cuePoints.length === 0) return null;
+
+            if (!metadata.format || metadata.format.sampleRate === 0) {
+                throw new ExtractionError('MISSING_FORMAT');
+            }
+
+            const sampleRate = metadata.format.sampleRate;
+            const totalSamples = metadata.dataSize !== null && metadata.format.blockAlign > 0
+                ? Math.floor(metadata.dataSize / metadata.format.blockAlign)
+                : null;
+            const warnings: string[] = [];
+
+            const markers: Marker[] = metadata.cuePoints.map((cue, index) => {
+                const marker: Marker = {
+                    samplePosition: cue.samplePosition,
+                    sampleRate,
+                    label: cue.label || cue.text || cue.note || `Marker ${index + 1}`
+                };
+
+                // ltxt chunks give regions a length in samples
+                if (cue.sampleLength) {
+                    marker.sampleLength = cue.sampleLength;
+                }
+
+                if (totalSamples !== null && cue.samplePosition > totalSamples) {
+                    warnings.push(`Marker "${marker.label}" at sample ${cue.samplePosition} lies beyond the end of the audio (${totalSamples} samples)`);
+                }
+
+                return marker;
+            });
+
+            return { markers, confidence: 1, warnings };
+        }
+    },
+    {
+        name: 'ixml',
+        description: 'iXML chunk: <SYNC_POINT_LIST> markers, plus scene/take/note and track names as a take marker (Sound Devices, Zoom F-series)',
+        supplementary: true,
+        detect: ({ metadata }) => {
+            if (!metadata.ixml) return null;
+
+            const sampleRate = metadata.format?.sampleRate;
+            if (!sampleRate) {
+                throw new ExtractionError('MISSING_FORMAT');
+            }
+
+            const warnings: string[] = [];
+            const markers: Marker[] = RecorderMetadata.syncPoints(metadata, warnings).map(point => ({
+                samplePosition: point.samplePosition,
+                sampleRate,
+                label: point.comment || point.function || 'Sync point',
+                ...(point.sampleLength > 0 ? { sampleLength: point.sampleLength } : {})
+            }));
+
+            const takeInfo = RecorderMetadata.takeInfoFromIxml(metadata);
+            const annotations = takeInfo ? [takeMarker(takeInfo, sampleRate)] : [];
+
+            return markers.length > 0 || annotations.length > 0 || warnings.length > 0
+                ? { markers, confidence: 1, warnings, annotations }
+                : null;
+        }
+    },
+    {
+        name: 'bext-description',
+        description: 'sSCENE=/sTAKE=/sNOTE=/sTRKn= lines in the bext description (Sound Devices, Zaxcom, Pro Tools BWF exports)',
+        supplementary: true,
+        detect: ({ metadata }) => {
+            const takeInfo = RecorderMetadata.takeInfoFromBextDescription(metadata.bext?.description);
+            if (!takeInfo || !metadata.format?.sampleRate) return null;
+
+            return { markers: [], confidence: 1, warnings: [], annotations: [takeMarker(takeInfo, metadata.format.sampleRate)] };
+        }
+    },
+    {
+        name: 'smpl-loops',
+        description: 'loop regions from the smpl chunk (WaveLab and other sample editors)',
+        supplementary: true,
+        detect: ({ metadata }) => {
+            if (metadata.sampleLoops.length === 0) return null;
+
+            const sampleRate = metadata.format?.sampleRate;
+            if (!sampleRate) {
+                throw new ExtractionError('MISSING_FORMAT');
+            }
+
+            const warnings: string[] = [];
+            const markers: Marker[] = [];
+
+            metadata.sampleLoops.forEach((loop, index) => {
+                // Loops usually point at a cue whose label names them
+                const cue = metadata.cuePoints.find(point => point.id === loop.cuePointId);
+                const label = cue?.label || cue?.text || `Loop ${index + 1}`;
+
+                if (loop.end < loop.start) {
+                    warnings.push(`Skipped loop "${label}": it ends before it starts`);
+                    return;
+                }
+
+                // The loop end is the last sample played, so the region includes it
+                markers.push({ samplePosition: loop.start, sampleRate, label, sampleLength: loop.end - loop.start + 1 });
+            });
+
+            return { markers, confidence: 1, warnings };
+        }
+    },
+    {
+        name: 'bwfmetaedit-cues',
+        description: 'bwfmetaedit XML report with a <Cues> list of sample positions',
+        detect: ({ metadata, xml }) => {
+            const cues = xml?.conformance_point_document?.File?.[0]?.Cues?.[0];
+            if (!cues?.Cue) return null;
+
+            // Prefer the fmt chunk; the XML attribute is only a fallback
+            const sampleRate = metadata.format?.sampleRate || parseInt(cues.$?.samplerate || '', 10) || null;
+            if (!sampleRate) {
+                throw new ExtractionError('MISSING_FORMAT');
+            }
+
+            const cueArray = Array.isArray(cues.Cue) ? cues.Cue : [cues.Cue];
+            const markers: Marker[] = [];
+            const warnings: string[] = [];
+
+            for (const cue of cueArray) {
+                if (!cue.Position?.[0]) continue;
+
+                const label = cue.Label?.[0] || `Marker ${markers.length + 1}`;
+                const samplePosition = Number(cue.Position[0]);
+
+                if (!Number.isInteger(samplePosition) || samplePosition < 0) {
+                    warnings.push(`Skipped marker "${label}": invalid sample position "${cue.Position[0]}"`);
+                    continue;
+                }
+
+                const marker: Marker = { samplePosition, sampleRate, label };
+
+                // Regions carry their length in samples
+                const sampleLength = parseInt(cue.Length?.[0] || cue.SampleLength?.[0] || '0', 10);
+                if (sampleLength > 0) {
+                    marker.sampleLength = sampleLength;
+                }
+
+                markers.push(marker);
+            }
+
+            return { markers, confidence: scaled(0.9, markers.length, cueArray.length), warnings };
+        }
+    },
+    {
+        name: 'conformance-points',
+        description: 'conformance_point_list with time and marker attributes',
+        detect: ({ metadata, xml }) => {
+            const points = xml?.conformance_point_document?.conformance_point_list?.[0]?.conformance_point;
+            if (!points) return null;
+
+            return collectTimed(metadata, points.filter((point: any) => point.$?.time && point.$?.marker).map((point: any) => ({
+                time: point.$.time,
+                label: point.$.marker || point.$.name
+            })), 0.8);
+        }
+    },
+    {
+        name: 'bwf-data',
+        description: 'BWF_data document with <markers><marker><position>',
+        detect: ({ metadata, xml }) => {
+            const markerList = xml?.BWF_data?.markers?.[0]?.marker;
+            if (!markerList) return null;
+
+            return collectTimed(metadata, markerList.filter((marker: any) => marker.position?.[0]).map((marker: any) => ({
+                time: marker.position[0],
+                label: marker.name?.[0] || marker.label?.[0]
+            })), 0.7);
+        }
+    },
+    {
+        name: 'markers-list',
+        description: 'top-level <markers> element with position or time attributes',
+        detect: ({ metadata, xml }) => {
+            if (!xml?.markers) return null;
+
+            const entries: TimedEntry[] = [];
+            for (const group of Array.isArray(xml.markers) ? xml.markers : [xml.markers]) {
+                if (!group.marker) continue;
+
+                for (const m of Array.isArray(group.marker) ? group.marker : [group.marker]) {
+                    if (m.$ && (m.$.position || m.$.time)) {
+                        entries.push({ time: m.$.position || m.$.time, label: m.$.name || m.$.label || m.$.marker });
+                    }
+                }
+            }
+
+            return collectTimed(metadata, entries, 0.6);
+        }
+    },
+    {
+        name: 'bwfmetaedit-bext',
+        description: 'cue points nested in the bext section of a bwfmetaedit report',
+        detect: ({ metadata, xml }) => {
+            const file = xml?.conformance_point_document?.File;
+            const fileData = Array.isArray(file) ? file[0] : file;
+            const bext = fileData?.Core?.[0]?.bext?.[0];
+            const cuePoints = bext && (bext.CuePoint || bext.cue || bext.markers);
+            if (!cuePoints) return null;
+
+            return collectTimed(metadata, (Array.isArray(cuePoints) ? cuePoints : [cuePoints])
+                .filter((cue: any) => cue.$?.position)
+                .map((cue: any) => ({ time: cue.$.position, label: cue.$.label || cue.$.name })), 0.5);
+        }
+    },
+    {
+        name: 'generic',
+        description: 'any XML element with a time-like and a label-like field (heuristic)',
+        generic: true,
+        detect: ({ metadata, xml }) => {
+            if (!xml) return null;
+
+            const entries: TimedEntry[] = [];
+            searchRecursively(xml, entries);
+
+            const detection = collectTimed(metadata, entries, 0.2);
+            if (detection.markers.length > 0) {
+                detection.warnings.push('Markers were guessed by the generic heuristic; check that the labels make sense');
+            }
+            return detection;
+        }
+    }
+];
+
+interface TimedEntry {
+    time: string;
+    label?: string;
+}
+
+export class MarkerDetectors {
+
+    private static detectors: MarkerDetector[] = [...BUILT_IN_DETECTORS];
+
+    static register(detector: MarkerDetector): void {
+        if (this.detectors.some(existing => existing.name === detector.name)) {
+            throw new Error(`A marker detector named "${detector.name}" is already registered`);
+        }
+        this.detectors.push(detector);
+    }
+
+    static get names(): string[] {
+        return this.detectors.map(detector => detector.name);
+    }
+
+    static get all(): MarkerDetector[] {
+        return [...this.detectors];
+    }
+
+    /**
+     * Runs every enabled detector and keeps the most confident one that
+     * found markers, plus the markers of all supplementary detectors. Earlier
+     * registrations win ties. Annotations such as the take marker are only
+     * added when some detector found real markers. Each marker records the
+     * detector as its source.
+     */
+    static detect(context: DetectionContext, options: DetectionOptions = {}): DetectionResult {
+        const enabled = this.detectors.filter(detector => options.genericDetection !== false || !detector.generic);
+        const matches: { detector: MarkerDetector; detection: Detection }[] = [];
+
+        for (const detector of enabled) {
+            const detection = detector.detect(context);
+            if (detection && (detection.markers.length > 0 || detection.annotations?.length)) {
+                matches.push({ detector, detection });
+            } else if (detection) {
+                options.log?.(`Detector ${detector.name} recognized the file but found no usable markers`);
+            }
+        }
+
+        // Stable sort keeps registration order among equal confidences
+        matches.sort((a, b) => b.detection.confidence - a.detection.confidence);
+        const found = matches.filter(match => match.detection.markers.length > 0);
+
+        if (found.length === 0) {
+            throw new ExtractionError('NO_MARKERS_FOUND', {
+                detectors: enabled.map(detector => detector.name),
+                genericDetection: options.genericDetection !== false
+            });
+        }
+
+        const lead = found.find(match => !match.detector.supplementary) || found[0];
+        const supplements = matches.filter(match => match.detector.supplementary && match !== lead);
+        const used = [lead, ...supplements];
+
+        const markers = dedupeMarkers(used.flatMap(({ detector, detection }) =>
+            [...(detection.annotations || []), ...detection.markers].map(marker => ({ ...marker, source: marker.source || detector.name }))
+        ));
+
+        options.log?.(`Detectors ${used.map(match => match.detector.name).join(', ')} found ${markers.length} markers`);
+
+        return {
+            detector: lead.detector.name,
+            supplements: supplements.map(match => match.detector.name),
+            markers: markers.sort((a, b) => a.samplePosition - b.samplePosition),
+            confidence: lead.detection.confidence,
+            warnings: used.flatMap(match => match.detection.warnings),
+            candidates: matches.map(({ detector, detection }) => ({
+                detector: detector.name,
+                confidence: detection.confidence,
+                markerCount: detection.markers.length
+            }))
+        };
+    }
+}
+
+function takeMarker(info: TakeInfo, sampleRate: number): Marker {
+    return { samplePosition: 0, sampleRate, label: RecorderMetadata.takeLabel(info) };
+}
+
+/**
+ * Several sources often describe the same point, e.g. a loop that refers to
+ * a cue, or take info in both iXML and bext. Keeps the first marker for each
+ * position and label, preferring regions over points.
+ */
+export function dedupeMarkers(markers: Marker[]): Marker[] {
+    const byKey = new Map<string, Marker>();
+
+    for (const marker of markers) {
+        const key = `${marker.samplePosition}\u0000${marker.label}`;
+        const existing = byKey.get(key);
+        if (!existing || (!existing.sampleLength && marker.sampleLength)) {
+            byKey.set(key, marker);
+        }
+    }
+
+    return Array.from(byKey.values());
+}
+
+/**
+ * Converts entries with time strings into markers. Times that cannot be
+ * parsed are reported as warnings instead of being placed at 0, and lower
+ * the confidence.
+ */
+function collectTimed(metadata: BwfMetadata, entries: TimedEntry[], baseConfidence: number): Detection {
+    const sampleRate = metadata.format?.sampleRate || null;
+    const markers: Marker[] = [];
+    const warnings: string[] = [];
+
+    if (entries.length > 0 && !sampleRate) {
+        throw new ExtractionError('MISSING_FORMAT');
+    }
+
+    for (const entry of entries) {
+        const label = entry.label?.trim() || `Marker ${markers.length + 1}`;
+        const seconds = parseTimeToSeconds(entry.time);
+
+        if (seconds === null) {
+            warnings.push(`Skipped marker "${label}": could not parse time "${entry.time}"`);
+            continue;
+        }
+
+        markers.push({ samplePosition: Math.round(seconds * (sampleRate as number)), sampleRate: sampleRate as number, label });
+    }
+
+    return { markers, confidence: scaled(baseConfidence, markers.length, entries.length), warnings };
+}
+
+function scaled(baseConfidence: number, parsed: number, total: number): number {
+    return total > 0 ? baseConfidence * parsed / total : 0;
+}
+
+function searchRecursively(obj: any, entries: TimedEntry[]): void {
+    if (typeof obj !== 'object' || obj === null) return;
+
+    // Only elements with both a time and a label; a lone name or comment is not a marker
+    if (!Array.isArray(obj)) {
+        const time = firstValue(obj, TIME_PROPS);
+        const label = firstValue(obj, LABEL_PROPS);
+        if (time !== null && label !== null) {
+            entries.push({ time, label });
+        }
+    }
+
+    for (const [key, value] of Object.entries(obj)) {
+        // Attributes were already checked as part of their element
+        if (key !== '$') {
+            searchRecursively(value, entries);
+        }
+    }
+}
+
+function firstValue(obj: any, props: string[]): string | null {
+    for (const prop of props) {
+        let value = obj[prop] || (obj.$ && obj.$[prop]);
+
+        if (value !== undefined) {
+            if (Array.isArray(value)) value = value[0];
+            if ((typeof value === 'string' && value.trim()) || typeof value === 'number') {
+                return value.toString().trim();
+            }
+        }
+    }
+
+    return null;
+}
+
+function parseTimeToSeconds(timeString: string): number | null {
+    // Examples: "00:01:23.456", "83.456", "1:23.456"
+    const trimmed = String(timeString).trim();
+
+    // If it's a simple number string (seconds)
+    if (/^\d+(\.\d*)?$/.test(trimmed)) {
+        return parseFloat(trimmed);
+    }
+
+    // Handle HH:MM:SS.mmm and MM:SS.mmm formats
+    const match = /^(?:(\d+):)?(\d+):(\d+(?:\.\d*)?)$/.exec(trimmed);
+    if (match) {
+        const hours = match[1] ? parseInt(match[1], 10) : 0;
+        const minutes = parseInt(match[2], 10);
+        const seconds = parseFloat(match[3]);
+
+        return hours * 3600 + minutes * 60 + seconds;
+    }
+
+    return null;
+}
@@ -0,0 +1,129 @@
+import { Readable } from 'stream';
+import { BwfMetadata, BwfReader } from './bwf-reader';
+import { ExtractionError } from './errors';
+import { LabelRules } from './label-rules';
+import { ConversionOptions, DetectionSummary, Marker, MarkerConverter } from './marker-converter';
+import { DetectionResult } from './marker-detectors';
+import { MarkerFormatter, OutputFormat } from './marker-formatter';
+import { Timecode, TimecodeRate } from './timecode';
+
+export interface ExtractOptions extends Omit<ConversionOptions, 'format' | 'outputDir' | 'dryRun'> {
+    // Name of the recording, for the {file} label placeholder
+    fileName?: string;
+    // The input is a chunk skeleton without the body of its data chunk
+    audioOmitted?: boolean;
+    // Called when no detector finds markers, e.g. to run bwfmetaedit on a copy on disk
+    fallback?: (metadata: BwfMetadata) => Promise<DetectionResult>;
+}
+
+export interface ExtractResult {
+    // After label rules and timecode placement
+    markers: Marker[];
+    // From the fmt chunk; null when the file has none
+    sampleRate: number | null;
+    // Length of the audio in seconds, from the data chunk size
+    duration: number | null;
+    // Seconds the markers were moved by timecode shift, 0 otherwise
+    start: number;
+    // Requested timecode rate, else the one in the iXML chunk, else 25 fps
+    frameRate: TimecodeRate;
+    warnings: string[];
+    detection: DetectionSummary;
+    // Every chunk that was read, for bext and iXML details
+    metadata: BwfMetadata;
+}
+
+export interface FormatMarkersOptions {
+    // Name of the source file, written by CUE sheets, EDL and JSON
+    fileName?: string;
+    frameRate?: TimecodeRate;
+    // `duration` and `start` of an ExtractResult; chapter formats end the last chapter at their sum
+    duration?: number | null;
+    start?: number;
+    // Receives what the target program would reject or ignore, e.g. too few YouTube chapters
+    warnings?: string[];
+}
+
+// Used for {file} and the formats that name their source when the caller gives no name
+const DEFAULT_FILE_NAME = 'recording.wav';
+
+/**
+ * Extraction and formatting on data in memory, behind the library API in
+ * src/index.ts. Nothing here reads or writes files or logs by itself.
+ */
+export class MarkerExtractor {
+
+    static async extract(input: Buffer | Readable, options: ExtractOptions = {}): Promise<ExtractResult> {
+        // Rules passed in code are checked like those of a request
+        const labelRules = options.labelRules ? LabelRules.parseOptions(undefined, options.labelRules) : undefined;
+
+        try {
+            const readOptions = { audioOmitted: options.audioOmitted };
+            const metadata = Buffer.isBuffer(input)
+                ? await BwfReader.readBuffer(input, readOptions)
+                : await BwfReader.readStream(input, readOptions);
+
+            return await this.extractFromMetadata(metadata, { ...options, labelRules });
+        } catch (error) {
+            throw ExtractionError.from(error);
+        }
+    }
+
+    static async extractFromMetadata(metadata: BwfMetadata, options: ExtractOptions = {}): Promise<ExtractResult> {
+        const detection = await this.detect(metadata, options);
+        const warnings = [...detection.warnings];
+        const markers = MarkerConverter.transform(detection.markers, metadata, options.fileName || DEFAULT_FILE_NAME, options, warnings);
+
+        const sampleRate = metadata.format?.sampleRate || null;
+        const length = MarkerConverter.audioDuration(metadata, undefined);
+        const startSample = options.timecode?.placement === 'shift' ? Timecode.startSample(metadata) : null;
+
+        return {
+            markers,
+            sampleRate,
+            duration: length ? length.samples / length.sampleRate : null,
+            start: startSample !== null && sampleRate ? startSample / sampleRate : 0,
+            frameRate: MarkerConverter.frameRate(metadata, options),
+            warnings,
+            detection: MarkerConverter.summarize(detection),
+            metadata
+        };
+    }
+
+    /**
+     * Runs the marker detectors, then the fallback if none found markers.
+     * Files without bext or iXML data fail with NO_BWF_DATA.
+     */
+    static async detect(metadata: BwfMetadata, options: ExtractOptions = {}): Promise<DetectionResult> {
+        try {
+            return MarkerConverter.detectBwfMarkers(metadata, options);
+        } catch (error) {
+            if (!(error instanceof ExtractionError) || error.code !== 'NO_MARKERS_FOUND') {
+                throw error;
+            }
+
+            if (options.fallback) {
+                return options.fallback(metadata);
+            }
+
+            if (!metadata.bext && !metadata.ixml) {
+                throw new ExtractionError('NO_BWF_DATA');
+            }
+            throw error;
+        }
+    }
+
+    static format(markers: Marker[], format: OutputFormat, options: FormatMarkersOptions = {}): string {
+        // Chapter ends are counted in samples like the markers themselves
+        const sampleRate = markers[0]?.sampleRate;
+        const duration = options.duration !== undefined && options.duration !== null && sampleRate
+            ? { samples: Math.round(((options.start || 0) + options.duration) * sampleRate), sampleRate }
+            : undefined;
+
+        return MarkerFormatter.format(markers, format, options.fileName || DEFAULT_FILE_NAME, {
+            frameRate: options.frameRate || Timecode.DEFAULT_RATE,
+            duration,
+            warnings: options.warnings
+        });
+    }
+}
@@ -0,0 +1,391 @@
+import { Marker } from './marker-converter';
+import { Timecode, TimecodeRate } from './timecode';
+
+export type OutputFormat =
+    | 'audacity' | 'reaper' | 'audition' | 'cue' | 'srt' | 'vtt' | 'edl' | 'json'
+    | 'podcast-chapters' | 'ffmetadata' | 'mp4chaps' | 'youtube';
+
+export interface FormatOptions {
+    // Frame rate for frame based formats (EDL)
+    frameRate?: TimecodeRate;
+    // Length of the audio from the data chunk; the last chapter ends there
+    duration?: AudioDuration;
+    // How far the markers were moved from their place in the audio (JSON only)
+    offset?: AudioDuration;
+    // Receives what the target program would reject or ignore, e.g. too few YouTube chapters
+    warnings?: string[];
+}
+
+export interface AudioDuration {
+    samples: number;
+    sampleRate: number;
+}
+
+// A marker's span up to the next chapter, in samples at the marker's rate
+interface Chapter {
+    title: string;
+    start: number;
+    end: number;
+    sampleRate: number;
+}
+
+interface FormatDefinition {
+    suffix: string;
+    extension: string;
+    write(markers: Marker[], sourceFileName: string, options: FormatOptions): string;
+}
+
+// Point markers have no duration, but subtitle cues need one to be visible
+const SUBTITLE_CUE_MS = 2000;
+// CUE sheets address audio in CD frames
+const CUE_FRAMES_PER_SECOND = 75;
+// CD track numbers run from 01 to 99
+const CUE_MAX_TRACKS = 99;
+// YouTube ignores the whole chapter list if a chapter is shorter than this
+const YOUTUBE_MIN_CHAPTER_SECONDS = 10;
+// ... or if it has fewer chapters than this
+const YOUTUBE_MIN_CHAPTERS = 3;
+
+export class MarkerFormatter {
+
+    private static readonly formats: Record<OutputFormat, FormatDefinition> = {
+        audacity: { suffix: '_markers', extension: 'txt', write: markers => MarkerFormatter.formatAsAudacityLabels(markers) },
+        reaper: { suffix: '_markers_reaper', extension: 'csv', write: markers => MarkerFormatter.formatAsReaperCsv(markers) },
+        audition: { suffix: '_markers_audition', extension: 'csv', write: markers => MarkerFormatter.formatAsAuditionCsv(markers) },
+        cue: { suffix: '_markers', extension: 'cue', write: (markers, file, options) => MarkerFormatter.formatAsCueSheet(markers, file, options) },
+        srt: { suffix: '_markers', extension: 'srt', write: markers => MarkerFormatter.formatAsSrt(markers) },
+        vtt: { suffix: '_markers', extension: 'vtt', write: markers => MarkerFormatter.formatAsWebVtt(markers) },
+        edl: { suffix: '_markers', extension: 'edl', write: (markers, file, options) => MarkerFormatter.formatAsEdl(markers, file, options) },
+        json: { suffix: '_markers', extension: 'json', write: (markers, file, options) => MarkerFormatter.formatAsJson(markers, file, options) },
+        'podcast-chapters': { suffix: '_chapters', extension: 'json', write: (markers, file, options) => MarkerFormatter.formatAsPodcastChapters(markers, options) },
+        ffmetadata: { suffix: '_ffmetadata', extension: 'txt', write: (markers, file, options) => MarkerFormatter.formatAsFfmetadata(markers, options) },
+        // mp4chaps -i reads <name>.chapters.txt next to <name>.m4a
+        mp4chaps: { suffix: '.chapters', extension: 'txt', write: (markers, file, options) => MarkerFormatter.formatAsMp4Chaps(markers, options) },
+        youtube: { suffix: '_youtube', extension: 'txt', write: (markers, file, options) => MarkerFormatter.formatAsYouTube(markers, options) }
+    };
+
+    static isOutputFormat(value: unknown): value is OutputFormat {
+        return typeof value === 'string' && Object.prototype.hasOwnProperty.call(this.formats, value);
+    }
+
+    static get outputFormats(): OutputFormat[] {
+        return Object.keys(this.formats) as OutputFormat[];
+    }
+
+    static format(markers: Marker[], format: OutputFormat, sourceFileName: string, options: FormatOptions = {}): string {
+        return this.formats[format].write(markers, sourceFileName, options);
+    }
+
+    static outputFileName(baseName: string, format: OutputFormat): string {
+        const definition = this.formats[format];
+        return `${baseName}${definition.suffix}.${definition.extension}`;
+    }
+
+    private static formatAsAudacityLabels(markers: Marker[]): string {
+        // Audacity label format: start_time\tend_time\tlabel
+        // For point markers, start_time and end_time are the same
+
+        const lines = markers.map(marker => {
+            // Format time to 6 decimal places (rounded to the nearest microsecond)
+            const startString = this.toDecimalSeconds(marker.samplePosition, marker.sampleRate, 6);
+            const endString = this.toDecimalSeconds(this.endSample(marker), marker.sampleRate, 6);
+            return `${startString}\t${endString}\t${this.singleLine(marker.label)}`;
+        });
+
+        return lines.join('\n') + '\n';
+    }
+
+    private static formatAsReaperCsv(markers: Marker[]): string {
+        // Region/Marker Manager import: markers are numbered M1, M2, ... and regions R1, R2, ...
+        const lines = ['#,Name,Start,End,Length'];
+        let markerCount = 0;
+        let regionCount = 0;
+
+        for (const marker of markers) {
+            const name = this.escapeCsv(this.singleLine(marker.label));
+            const startMs = this.toMilliseconds(marker.samplePosition, marker.sampleRate);
+            const start = this.formatMinutesSeconds(startMs);
+
+            if (this.isRegion(marker)) {
+                const endMs = this.toMilliseconds(this.endSample(marker), marker.sampleRate);
+                lines.push(`R${++regionCount},${name},${start},${this.formatMinutesSeconds(endMs)},${this.formatMinutesSeconds(endMs - startMs)}`);
+            } else {
+                lines.push(`M${++markerCount},${name},${start},,`);
+            }
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    private static formatAsAuditionCsv(markers: Marker[]): string {
+        // Audition's marker list is tab separated despite the .csv extension
+        const lines = ['Name\tStart\tDuration\tTime Format\tType\tDescription'];
+
+        for (const marker of markers) {
+            const start = this.formatMinutesSeconds(this.toMilliseconds(marker.samplePosition, marker.sampleRate));
+            const duration = this.formatMinutesSeconds(this.toMilliseconds(marker.sampleLength || 0, marker.sampleRate));
+            lines.push(`${this.singleLine(marker.label)}\t${start}\t${duration}\tdecimal\tCue\t`);
+        }
+
+        return lines.join('\r\n') + '\r\n';
+    }
+
+    private static formatAsCueSheet(markers: Marker[], sourceFileName: string, options: FormatOptions): string {
+        const lines = [`FILE "${this.escapeQuotes(this.singleLine(sourceFileName))}" WAVE`];
+
+        if (markers.length > CUE_MAX_TRACKS) {
+            options.warnings?.push(`CUE sheets hold at most ${CUE_MAX_TRACKS} tracks; the last ${markers.length - CUE_MAX_TRACKS} markers were left out`);
+        }
+
+        markers.slice(0, CUE_MAX_TRACKS).forEach((marker, index) => {
+            const track = String(index + 1).padStart(2, '0');
+            lines.push(`  TRACK ${track} AUDIO`);
+            lines.push(`    TITLE "${this.escapeQuotes(this.singleLine(marker.label))}"`);
+            lines.push(`    INDEX 01 ${this.formatCueTime(this.toFrames(marker.samplePosition, marker.sampleRate, CUE_FRAMES_PER_SECOND))}`);
+        });
+
+        return lines.join('\r\n') + '\r\n';
+    }
+
+    private static formatAsSrt(markers: Marker[]): string {
+        const blocks = markers.map((marker, index) => {
+            const [start, end] = this.subtitleSpan(markers, index);
+            return `${index + 1}\n${this.formatSubtitleTime(start, ',')} --> ${this.formatSubtitleTime(end, ',')}\n${this.singleLine(marker.label)}`;
+        });
+
+        return blocks.join('\n\n') + '\n';
+    }
+
+    private static formatAsWebVtt(markers: Marker[]): string {
+        const blocks = markers.map((marker, index) => {
+            const [start, end] = this.subtitleSpan(markers, index);
+            return `${index + 1}\n${this.formatSubtitleTime(start, '.')} --> ${this.formatSubtitleTime(end, '.')}\n${this.singleLine(marker.label)}`;
+        });
+
+        return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+    }
+
+    private static formatAsEdl(markers: Marker[], sourceFileName: string, options: FormatOptions): string {
+        // CMX3600-style marker list as exported and imported by DaVinci Resolve
+        const rate = options.frameRate || Timecode.DEFAULT_RATE;
+        const lines = [`TITLE: ${this.singleLine(sourceFileName)}`, `FCM: ${Timecode.isDropFrame(rate) ? 'DROP FRAME' : 'NON-DROP FRAME'}`, ''];
+
+        markers.forEach((marker, index) => {
+            const frame = Timecode.toFrameCount(marker.samplePosition, marker.sampleRate, rate);
+            // Resolve markers last at least one frame; regions span their full duration
+            const duration = Math.max(1, Timecode.toFrameCount(this.endSample(marker), marker.sampleRate, rate) - frame);
+            const start = Timecode.formatFrameCount(frame, rate);
+            const end = Timecode.formatFrameCount(frame + duration, rate);
+            const event = String(index + 1).padStart(3, '0');
+
+            lines.push(`${event}  001      V     C        ${start} ${end} ${start} ${end}  `);
+            lines.push(` |C:ResolveColorBlue |M:${this.singleLine(marker.label).replace(/\|/g, '/')} |D:${duration}`);
+            lines.push('');
+        });
+
+        return lines.join('\n');
+    }
+
+    private static formatAsJson(markers: Marker[], sourceFileName: string, options: FormatOptions): string {
+        // Sample positions are exact; seconds are provided for convenience only
+        const entries = markers.map(marker => ({
+            label: marker.label,
+            samplePosition: marker.samplePosition,
+            ...(this.isRegion(marker) ? { sampleLength: marker.sampleLength } : {}),
+            sampleRate: marker.sampleRate,
+            time: marker.samplePosition / marker.sampleRate,
+            ...(this.isRegion(marker) ? { endTime: this.endSample(marker) / marker.sampleRate } : {}),
+            ...(marker.source ? { source: marker.source } : {})
+        }));
+
+        const duration = options.duration
+            ? { duration: { ...options.duration, time: options.duration.samples / options.duration.sampleRate } }
+            : {};
+        const offset = options.offset
+            ? { offset: { ...options.offset, time: options.offset.samples / options.offset.sampleRate } }
+            : {};
+
+        return JSON.stringify({ file: sourceFileName, ...duration, ...offset, markers: entries }, null, 2) + '\n';
+    }
+
+    private static formatAsPodcastChapters(markers: Marker[], options: FormatOptions): string {
+        // Podcasting 2.0 JSON chapters; endTime is optional there but players show it as the chapter length
+        const chapters = this.chapters(markers, options).map(chapter => ({
+            startTime: this.toMilliseconds(chapter.start, chapter.sampleRate) / 1000,
+            ...(chapter.end > chapter.start ? { endTime: this.toMilliseconds(chapter.end, chapter.sampleRate) / 1000 } : {}),
+            title: chapter.title
+        }));
+
+        return JSON.stringify({ version: '1.2.0', chapters }, null, 2) + '\n';
+    }
+
+    private static formatAsFfmetadata(markers: Marker[], options: FormatOptions): string {
+        // A time base of one sample keeps the positions exact; ffmpeg needs an END for every chapter
+        const lines = [';FFMETADATA1'];
+
+        for (const chapter of this.chapters(markers, options)) {
+            lines.push('[CHAPTER]');
+            lines.push(`TIMEBASE=1/${chapter.sampleRate}`);
+            lines.push(`START=${chapter.start}`);
+            lines.push(`END=${chapter.end}`);
+            lines.push(`title=${this.escapeFfmetadata(this.singleLine(chapter.title))}`);
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    private static formatAsMp4Chaps(markers: Marker[], options: FormatOptions): string {
+        // Each chapter lasts until the next one; mp4chaps ends the last one with the audio track
+        const lines = this.chapters(markers, options).map(chapter =>
+            `${this.formatSubtitleTime(this.toMilliseconds(chapter.start, chapter.sampleRate), '.')} ${this.singleLine(chapter.title)}`
+        );
+
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * YouTube only shows chapters if the first starts at 0:00 and each lasts
+     * at least ten seconds. The first chapter is moved to 0:00, and a chapter
+     * starting too soon after the previous one, or too close to the end of
+     * the audio, is merged into the previous one.
+     */
+    private static formatAsYouTube(markers: Marker[], options: FormatOptions): string {
+        const kept: { seconds: number; title: string }[] = [];
+
+        for (const chapter of this.chapters(markers, options)) {
+            const seconds = Math.floor(chapter.start / chapter.sampleRate);
+            const previous = kept[kept.length - 1];
+
+            if (!previous) {
+                kept.push({ seconds: 0, title: chapter.title });
+            } else if (seconds - previous.seconds >= YOUTUBE_MIN_CHAPTER_SECONDS) {
+                kept.push({ seconds, title: chapter.title });
+            }
+        }
+
+        const durationSeconds = options.duration ? options.duration.samples / options.duration.sampleRate : Infinity;
+        while (kept.length > 1 && durationSeconds - kept[kept.length - 1].seconds < YOUTUBE_MIN_CHAPTER_SECONDS) {
+            kept.pop();
+        }
+
+        if (kept.length < YOUTUBE_MIN_CHAPTERS) {
+            options.warnings?.push(`YouTube only shows chapters when there are at least ${YOUTUBE_MIN_CHAPTERS}; this list has ${kept.length}`);
+        }
+
+        return kept.map(chapter => `${this.formatYouTubeTime(chapter.seconds)} ${this.singleLine(chapter.title)}`).join('\n') + '\n';
+    }
+
+    private static isRegion(marker: Marker): boolean {
+        return marker.sampleLength !== undefined && marker.sampleLength > 0;
+    }
+
+    private static endSample(marker: Marker): number {
+        return marker.samplePosition + (this.isRegion(marker) ? marker.sampleLength as number : 0);
+    }
+
+    /**
+     * Chapters run from one marker to the next; the last ends with the audio,
+     * or at its own start if the duration is unknown. A region ends a chapter
+     * early. Markers at the same position as the previous one are skipped.
+     */
+    private static chapters(markers: Marker[], options: FormatOptions): Chapter[] {
+        const sorted = [...markers]
+            .sort((a, b) => a.samplePosition / a.sampleRate - b.samplePosition / b.sampleRate)
+            .filter((marker, index, all) => index === 0 || marker.samplePosition / marker.sampleRate > all[index - 1].samplePosition / all[index - 1].sampleRate);
+
+        return sorted.map((marker, index) => {
+            const rate = marker.sampleRate;
+            const next = sorted[index + 1];
+            const duration = options.duration;
+
+            let end = next
+                ? Math.round(next.samplePosition * rate / next.sampleRate)
+                : duration ? Math.round(duration.samples * rate / duration.sampleRate) : marker.samplePosition;
+            if (this.isRegion(marker)) {
+                end = Math.min(end, this.endSample(marker));
+            }
+
+            // Markers beyond the end of the audio become empty chapters rather than negative ones
+            return { title: marker.label, start: marker.samplePosition, end: Math.max(marker.samplePosition, end), sampleRate: rate };
+        });
+    }
+
+    private static subtitleSpan(markers: Marker[], index: number): [number, number] {
+        const marker = markers[index];
+        const start = this.toMilliseconds(marker.samplePosition, marker.sampleRate);
+
+        // Regions are shown for exactly their duration
+        if (this.isRegion(marker)) {
+            return [start, this.toMilliseconds(this.endSample(marker), marker.sampleRate)];
+        }
+
+        const end = start + SUBTITLE_CUE_MS;
+        const next = markers[index + 1];
+        const nextStart = next ? this.toMilliseconds(next.samplePosition, next.sampleRate) : Infinity;
+        return [start, nextStart > start ? Math.min(end, nextStart) : end];
+    }
+
+    // Rounding from samples happens only here, once per output value
+
+    private static toDecimalSeconds(samples: number, sampleRate: number, decimals: number): string {
+        return (samples / sampleRate).toFixed(decimals);
+    }
+
+    private static toMilliseconds(samples: number, sampleRate: number): number {
+        return Math.round(samples * 1000 / sampleRate);
+    }
+
+    private static toFrames(samples: number, sampleRate: number, frameRate: number): number {
+        return Math.round(samples * frameRate / sampleRate);
+    }
+
+    private static formatMinutesSeconds(totalMs: number): string {
+        const minutes = Math.floor(totalMs / 60000);
+        const rest = (totalMs % 60000) / 1000;
+        return `${minutes}:${rest.toFixed(3).padStart(6, '0')}`;
+    }
+
+    private static formatSubtitleTime(totalMs: number, separator: string): string {
+        const hours = Math.floor(totalMs / 3600000);
+        const minutes = Math.floor((totalMs % 3600000) / 60000);
+        const secs = Math.floor((totalMs % 60000) / 1000);
+        const ms = totalMs % 1000;
+        return `${this.pad(hours)}:${this.pad(minutes)}:${this.pad(secs)}${separator}${String(ms).padStart(3, '0')}`;
+    }
+
+    private static formatCueTime(totalFrames: number): string {
+        const minutes = Math.floor(totalFrames / (60 * CUE_FRAMES_PER_SECOND));
+        const secs = Math.floor(totalFrames / CUE_FRAMES_PER_SECOND) % 60;
+        const frames = totalFrames % CUE_FRAMES_PER_SECOND;
+        return `${this.pad(minutes)}:${this.pad(secs)}:${this.pad(frames)}`;
+    }
+
+    private static formatYouTubeTime(totalSeconds: number): string {
+        const hours = Math.floor(totalSeconds / 3600);
+        const minutes = Math.floor(totalSeconds / 60) % 60;
+        const secs = totalSeconds % 60;
+        return hours > 0 ? `${hours}:${this.pad(minutes)}:${this.pad(secs)}` : `${minutes}:${this.pad(secs)}`;
+    }
+
+    private static pad(value: number): string {
+        return String(value).padStart(2, '0');
+    }
+
+    private static escapeCsv(value: string): string {
+        return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+
+    private static escapeQuotes(value: string): string {
+        return value.replace(/"/g, "'");
+    }
+
+    private static escapeFfmetadata(value: string): string {
+        // =, ;, #, \ and newlines are special in FFMETADATA values
+        return value.replace(/[=;#\\\n]/g, match => `\\${match}`);
+    }
+
+    // Every label in a line-based format; a tab or line break would start a new field or entry
+    private static singleLine(value: string): string {
+        return value.replace(/\s*[\t\r\n]+\s*/g, ' ');
+    }
+}
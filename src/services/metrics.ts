@@ -0,0 +1,104 @@
+type Labels = Record<string, string>;
+
+// Content type of the Prometheus text exposition format
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+interface Metric {
+    render(): string[];
+}
+
+/**
+ * A monotonically increasing value, kept per combination of label values.
+ */
+export class Counter implements Metric {
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(readonly name: string, readonly help: string, private readonly labelled: boolean = false) {}
+
+    inc(labels: Labels = {}, amount: number = 1): void {
+        const key = labelKey(labels);
+        const current = this.values.get(key) || { labels, value: 0 };
+        current.value += amount;
+        this.values.set(key, current);
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+        // An unlabelled counter is reported as 0 before its first increment
+        const values = this.values.size > 0 || this.labelled ? [...this.values.values()] : [{ labels: {}, value: 0 }];
+
+        for (const { labels, value } of values) {
+            lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Counts observations into cumulative buckets, with their sum and count.
+ */
+export class Histogram implements Metric {
+    private counts: number[];
+    private sum = 0;
+    private count = 0;
+
+    constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {
+        this.buckets = [...buckets].sort((a, b) => a - b);
+        this.counts = this.buckets.map(() => 0);
+    }
+
+    observe(value: number): void {
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) this.counts[index]++;
+        });
+        this.sum += value;
+        this.count++;
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+        this.buckets.forEach((bound, index) => {
+            lines.push(`${this.name}_bucket${formatLabels({ le: String(bound) })} ${this.counts[index]}`);
+        });
+        lines.push(`${this.name}_bucket${formatLabels({ le: '+Inf' })} ${this.count}`);
+        lines.push(`${this.name}_sum ${this.sum}`);
+        lines.push(`${this.name}_count ${this.count}`);
+        return lines;
+    }
+}
+
+/**
+ * The metrics served by /metrics, in the Prometheus text format. Kept in
+ * memory, so they start from zero on every restart like any counter.
+ */
+export class MetricsRegistry {
+    private metrics: Metric[] = [];
+
+    counter(name: string, help: string, labelled: boolean = false): Counter {
+        const counter = new Counter(name, help, labelled);
+        this.metrics.push(counter);
+        return counter;
+    }
+
+    histogram(name: string, help: string, buckets: number[]): Histogram {
+        const histogram = new Histogram(name, help, buckets);
+        this.metrics.push(histogram);
+        return histogram;
+    }
+
+    render(): string {
+        return this.metrics.flatMap(metric => metric.render()).join('\n') + '\n';
+    }
+}
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([name, value]) =>
+        `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+    );
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
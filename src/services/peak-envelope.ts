@@ -0,0 +1,127 @@
+import fs from 'fs';
+import { BwfMetadata } from './bwf-reader';
+import { ExtractionError } from './errors';
+
+/**
+ * Minimum and maximum sample value, across all channels, of consecutive
+ * blocks of `samplesPerPeak` frames. Values are scaled to -1..1.
+ */
+export interface Peaks {
+    sampleRate: number;
+    channels: number;
+    // Length of the audio in frames and seconds
+    frames: number;
+    duration: number;
+    samplesPerPeak: number;
+    min: number[];
+    max: number[];
+}
+
+type SampleReader = (buffer: Buffer, offset: number) => number;
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+const READ_BLOCK_SIZE = 1024 * 1024;
+// Enough for a full-width canvas on a high-density screen
+const DEFAULT_PEAK_COUNT = 2000;
+
+export class PeakEnvelope {
+
+    /**
+     * Streams the `data` chunk once, so memory use does not grow with the
+     * length of the recording.
+     */
+    static async compute(filePath: string, metadata: BwfMetadata, peakCount: number = DEFAULT_PEAK_COUNT): Promise<Peaks> {
+        const format = metadata.format;
+        if (!format || format.sampleRate === 0 || format.blockAlign === 0) {
+            throw new ExtractionError('MISSING_FORMAT');
+        }
+        if (metadata.dataOffset === null || !metadata.dataSize) {
+            // Also the case for chunk skeletons, which carry no audio
+            throw new ExtractionError('NO_AUDIO_DATA');
+        }
+
+        // WAVE_FORMAT_EXTENSIBLE files name the actual encoding in their subformat
+        const audioFormat = format.subFormat ?? format.audioFormat;
+        const readSample = this.sampleReader(audioFormat, format.bitsPerSample);
+        if (!readSample) {
+            throw new ExtractionError('UNSUPPORTED_AUDIO_FORMAT', { audioFormat, bitsPerSample: format.bitsPerSample });
+        }
+
+        const bytesPerSample = format.bitsPerSample / 8;
+        const frames = Math.floor(metadata.dataSize / format.blockAlign);
+        const samplesPerPeak = Math.max(1, Math.ceil(frames / peakCount));
+        const count = Math.ceil(frames / samplesPerPeak);
+        const min = new Array<number>(count).fill(0);
+        const max = new Array<number>(count).fill(0);
+
+        const handle = await fs.promises.open(filePath, 'r');
+
+        try {
+            // Whole frames only, so a block never splits a sample
+            const framesPerBlock = Math.max(1, Math.floor(READ_BLOCK_SIZE / format.blockAlign));
+            const buffer = Buffer.alloc(framesPerBlock * format.blockAlign);
+            let frame = 0;
+
+            while (frame < frames) {
+                const wanted = Math.min(framesPerBlock, frames - frame);
+                const { bytesRead } = await handle.read(buffer, 0, wanted * format.blockAlign, metadata.dataOffset + frame * format.blockAlign);
+                const framesRead = Math.floor(bytesRead / format.blockAlign);
+                if (framesRead === 0) break;
+
+                for (let i = 0; i < framesRead; i++) {
+                    const peak = Math.floor((frame + i) / samplesPerPeak);
+                    const frameOffset = i * format.blockAlign;
+
+                    for (let channel = 0; channel < format.channels; channel++) {
+                        const value = readSample(buffer, frameOffset + channel * bytesPerSample);
+                        if (value < min[peak]) min[peak] = value;
+                        if (value > max[peak]) max[peak] = value;
+                    }
+                }
+
+                frame += framesRead;
+            }
+        } finally {
+            await handle.close();
+        }
+
+        return {
+            sampleRate: format.sampleRate,
+            channels: format.channels,
+            frames,
+            duration: frames / format.sampleRate,
+            samplesPerPeak,
+            // Four decimals are plenty for drawing and keep the JSON small
+            min: min.map(value => Math.round(value * 10000) / 10000),
+            max: max.map(value => Math.round(value * 10000) / 10000)
+        };
+    }
+
+    private static sampleReader(audioFormat: number, bitsPerSample: number): SampleReader | null {
+        if (audioFormat === WAVE_FORMAT_PCM) {
+            switch (bitsPerSample) {
+                // 8-bit PCM is unsigned, everything wider is signed
+                case 8: return (buffer, offset) => (buffer[offset] - 128) / 128;
+                case 16: return (buffer, offset) => buffer.readInt16LE(offset) / 0x8000;
+                case 24: return (buffer, offset) => buffer.readIntLE(offset, 3) / 0x800000;
+                case 32: return (buffer, offset) => buffer.readInt32LE(offset) / 0x80000000;
+            }
+        }
+
+        if (audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+            switch (bitsPerSample) {
+                case 32: return (buffer, offset) => this.clamp(buffer.readFloatLE(offset));
+                case 64: return (buffer, offset) => this.clamp(buffer.readDoubleLE(offset));
+            }
+        }
+
+        return null;
+    }
+
+    private static clamp(value: number): number {
+        // Float audio may exceed full scale; NaN counts as silence
+        return Number.isNaN(value) ? 0 : Math.max(-1, Math.min(1, value));
+    }
+}
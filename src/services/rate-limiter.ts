@@ -0,0 +1,53 @@
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    // Seconds until the current window ends and the count starts over
+    resetSeconds: number;
+}
+
+interface Window {
+    count: number;
+    resetAt: number;
+}
+
+/**
+ * Fixed-window request counter per client key (the client IP). Windows
+ * are kept in memory; expired ones are swept at most once per window.
+ */
+export class RateLimiter {
+    private windows = new Map<string, Window>();
+    private nextSweep = 0;
+
+    constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+    take(key: string, now: number = Date.now()): RateLimitResult {
+        this.sweep(now);
+
+        let window = this.windows.get(key);
+        if (!window || window.resetAt <= now) {
+            window = { count: 0, resetAt: now + this.windowMs };
+            this.windows.set(key, window);
+        }
+
+        window.count++;
+
+        return {
+            allowed: window.count <= this.limit,
+            limit: this.limit,
+            remaining: Math.max(0, this.limit - window.count),
+            resetSeconds: Math.ceil((window.resetAt - now) / 1000)
+        };
+    }
+
+    private sweep(now: number): void {
+        if (now < this.nextSweep) return;
+
+        for (const [key, window] of this.windows) {
+            if (window.resetAt <= now) {
+                this.windows.delete(key);
+            }
+        }
+        this.nextSweep = now + this.windowMs;
+    }
+}
@@ -0,0 +1,233 @@
+import { Parser, processors } from 'xml2js';
+import { BwfMetadata } from './bwf-reader';
+
+/**
+ * Scene/take information that field recorders store with each take.
+ */
+export interface TakeInfo {
+    scene?: string;
+    take?: string;
+    note?: string;
+    tape?: string;
+    circled?: boolean;
+    // Track names in channel order
+    trackNames: string[];
+}
+
+/**
+ * An iXML `<SYNC_POINT>`, already converted to a position within the file.
+ */
+export interface SyncPoint {
+    samplePosition: number;
+    sampleLength: number;
+    function: string;
+    comment: string;
+}
+
+// An element parsed by xml2js: child elements by tag name, text as `_`, attributes as `$`
+type XmlElement = Record<string, any>;
+
+// Not a marker: the number of samples recorded before the record button was pressed
+const IGNORED_SYNC_FUNCTIONS = ['PRE_RECORD_SAMPLECOUNT'];
+
+// Tag names without namespace prefix and in upper case, as the iXML spec writes them
+const IXML_PARSER_OPTIONS = {
+    explicitRoot: false,
+    tagNameProcessors: [processors.stripPrefix, (name: string) => name.toUpperCase()]
+};
+
+// Parsed iXML documents; both the detectors and the session grouping read them
+const parsedIxml = new WeakMap<BwfMetadata, XmlElement | null>();
+
+/**
+ * Reads the take metadata that recorders (Sound Devices, Zoom F-series,
+ * Zaxcom) and editors like Pro Tools exchange in the iXML chunk and in the
+ * `sKEY=value` lines of the bext description.
+ */
+export class RecorderMetadata {
+
+    static takeInfoFromIxml(metadata: BwfMetadata): TakeInfo | null {
+        const ixml = this.ixml(metadata);
+        if (!ixml) return null;
+
+        const trackNames: string[] = [];
+        for (const track of elements(first(ixml.TRACK_LIST), 'TRACK')) {
+            const name = text(track, 'NAME');
+            const index = parseInt(text(track, 'CHANNEL_INDEX') || '', 10);
+            if (name) {
+                // CHANNEL_INDEX is 1-based; fall back to document order
+                trackNames[index > 0 ? index - 1 : trackNames.length] = name;
+            }
+        }
+
+        return this.takeInfo({
+            scene: text(ixml, 'SCENE'),
+            take: text(ixml, 'TAKE'),
+            note: text(ixml, 'NOTE'),
+            tape: text(ixml, 'TAPE'),
+            circled: text(ixml, 'CIRCLED')?.toUpperCase() === 'TRUE',
+            trackNames: trackNames.filter(Boolean)
+        });
+    }
+
+    /**
+     * Parses `sSCENE=12`, `sTAKE=3`, `sNOTE=...`, `sTRK1=Boom` lines. The
+     * lowercase prefix differs between vendors (s for Sound Devices, z for
+     * Zaxcom), so any single letter is accepted.
+     */
+    static takeInfoFromBextDescription(description: string | undefined): TakeInfo | null {
+        if (!description) return null;
+
+        const values = new Map<string, string>();
+        for (const match of description.matchAll(/^[a-z]([A-Z][A-Z0-9_]*)=(.*)$/gm)) {
+            values.set(match[1], match[2].trim());
+        }
+        if (values.size === 0) return null;
+
+        const trackNames: string[] = [];
+        for (const [key, value] of values) {
+            const track = /^TRK(\d+)$/.exec(key);
+            if (track && value) {
+                trackNames[parseInt(track[1], 10) - 1] = value;
+            }
+        }
+
+        return this.takeInfo({
+            scene: values.get('SCENE'),
+            take: values.get('TAKE'),
+            note: values.get('NOTE'),
+            tape: values.get('TAPE'),
+            circled: values.get('CIRCLED')?.toUpperCase() === 'TRUE',
+            trackNames: trackNames.filter(Boolean)
+        });
+    }
+
+    /**
+     * iXML sync points. RELATIVE points count from the start of the file,
+     * ABSOLUTE points from midnight and are moved by the bext TimeReference.
+     */
+    static syncPoints(metadata: BwfMetadata, warnings: string[]): SyncPoint[] {
+        const ixml = this.ixml(metadata);
+        if (!ixml) return [];
+
+        const startSample = metadata.bext ? metadata.bext.timeReference : 0;
+        const points: SyncPoint[] = [];
+
+        for (const point of elements(first(ixml.SYNC_POINT_LIST), 'SYNC_POINT')) {
+            const fn = text(point, 'SYNC_POINT_FUNCTION') || '';
+            if (IGNORED_SYNC_FUNCTIONS.includes(fn.toUpperCase())) continue;
+
+            const low = Number(text(point, 'SYNC_POINT_LOW') || '');
+            const high = Number(text(point, 'SYNC_POINT_HIGH') || '0');
+            const comment = text(point, 'SYNC_POINT_COMMENT') || '';
+
+            if (!Number.isInteger(low) || !Number.isInteger(high)) {
+                warnings.push(`Skipped iXML sync point "${comment || fn}": invalid position`);
+                continue;
+            }
+
+            let samplePosition = high * 0x100000000 + low;
+            if ((text(point, 'SYNC_POINT_TYPE') || '').toUpperCase() === 'ABSOLUTE') {
+                samplePosition -= startSample;
+            }
+
+            if (samplePosition < 0) {
+                warnings.push(`Skipped iXML sync point "${comment || fn}": it lies before the start of the file`);
+                continue;
+            }
+
+            points.push({
+                samplePosition,
+                sampleLength: parseInt(text(point, 'SYNC_POINT_EVENT_DURATION') || '0', 10) || 0,
+                function: fn,
+                comment
+            });
+        }
+
+        return points;
+    }
+
+    /**
+     * The `<FILE_SET><FAMILY_UID>` that polyphonic recorders give every
+     * file of one take, whether split into parts or into tracks.
+     */
+    static familyUid(metadata: BwfMetadata): string | null {
+        const ixml = this.ixml(metadata);
+        return (ixml && text(first(ixml.FILE_SET), 'FAMILY_UID')) || null;
+    }
+
+    /**
+     * The timecode rate (`25/1`, `30000/1001`) and DF/NDF flag the recorder
+     * stamped into the `<SPEED>` block; older files have them at the top.
+     */
+    static timecodeRate(metadata: BwfMetadata): { rate: string; flag?: string } | null {
+        const ixml = this.ixml(metadata);
+        if (!ixml) return null;
+
+        const speed = first(ixml.SPEED);
+        const rate = text(speed, 'TIMECODE_RATE') || text(ixml, 'TIMECODE_RATE');
+        const flag = text(speed, 'TIMECODE_FLAG') || text(ixml, 'TIMECODE_FLAG');
+        return rate ? { rate, ...(flag ? { flag } : {}) } : null;
+    }
+
+    /**
+     * A single line describing the take, e.g. `Scene 12 Take 3 (circled): wind noise [Boom, Lav 1]`.
+     */
+    static takeLabel(info: TakeInfo): string {
+        const parts: string[] = [];
+        if (info.scene) parts.push(`Scene ${info.scene}`);
+        if (info.take) parts.push(`Take ${info.take}`);
+
+        let label = parts.length > 0 ? parts.join(' ') : 'Take';
+        if (info.circled) label += ' (circled)';
+        // Notes are often typed on several lines; a label has to stay on one
+        if (info.note) label += `: ${info.note.replace(/\s*[\r\n\t]+\s*/g, ' ')}`;
+        if (info.trackNames.length > 0) label += ` [${info.trackNames.join(', ')}]`;
+
+        return label;
+    }
+
+    private static takeInfo(info: TakeInfo): TakeInfo | null {
+        const hasContent = info.scene || info.take || info.note || info.circled || info.trackNames.length > 0;
+        return hasContent ? info : null;
+    }
+
+    /**
+     * The iXML chunk parsed by xml2js, or null when there is none or it is
+     * not well-formed XML.
+     */
+    private static ixml(metadata: BwfMetadata): XmlElement | null {
+        if (!metadata.ixml) return null;
+
+        let ixml = parsedIxml.get(metadata);
+        if (ixml === undefined) {
+            ixml = null;
+            // Without the async option xml2js calls back before parseString returns
+            new Parser(IXML_PARSER_OPTIONS).parseString(metadata.ixml, (error: Error | null, root: unknown) => {
+                ixml = error ? null : asElement(root) || {};
+            });
+            parsedIxml.set(metadata, ixml);
+        }
+        return ixml;
+    }
+}
+
+function asElement(node: unknown): XmlElement | undefined {
+    return node && typeof node === 'object' ? node as XmlElement : undefined;
+}
+
+function first(nodes: unknown): XmlElement | undefined {
+    return Array.isArray(nodes) ? asElement(nodes[0]) : undefined;
+}
+
+function elements(parent: XmlElement | undefined, tag: string): XmlElement[] {
+    const nodes = parent?.[tag];
+    return Array.isArray(nodes) ? nodes.map(node => asElement(node) || {}) : [];
+}
+
+// Text of the first child element with the tag; CDATA and entities are already decoded
+function text(parent: XmlElement | undefined, tag: string): string | undefined {
+    const node = parent?.[tag]?.[0];
+    const value = typeof node === 'string' ? node : node?._;
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
@@ -0,0 +1,217 @@
+import path from 'path';
+import { BwfMetadata } from './bwf-reader';
+import { Marker } from './marker-converter';
+import { dedupeMarkers } from './marker-detectors';
+import { RecorderMetadata } from './recorder-metadata';
+
+export interface SessionFile {
+    filePath: string;
+    originalFileName: string;
+    // null when the file could not be read; it then forms a session of its own
+    metadata: BwfMetadata | null;
+}
+
+/**
+ * One stretch of the recording: the simultaneously recorded track files of
+ * a take, or one part of a take that was split at the file size limit.
+ */
+export interface SessionSegment {
+    files: SessionFile[];
+    // Start within the joined recording and length, in samples at the session's sample rate
+    offset: number;
+    duration: number;
+}
+
+export interface RecordingSession {
+    // Common name of the files, e.g. ZOOM0001 for ZOOM0001_Tr1.WAV and ZOOM0001_LR.WAV
+    name: string;
+    groupedBy: 'file-set' | 'file-name' | 'single';
+    sampleRate: number | null;
+    segments: SessionSegment[];
+}
+
+interface ParsedFileName {
+    base: string;
+    // Zoom style track suffix such as Tr1, Tr3_4, LR or Mix
+    track: string | null;
+    // Split number from a -0001 style suffix; 0 for the first part
+    part: number;
+}
+
+// ZOOM0001_Tr1, ZOOM0001_Tr3_4, ZOOM0001_TrLR, ZOOM0001_LR, 230101_001_TrMix, each optionally
+// followed by -0001. Only recorder track suffixes, so Interview_Track is not taken for a track
+const RECORDER_FILE_NAME = /^(.+?)(?:_(Tr(?:\d+(?:_\d+)?|L|R|LR|MS|Mix)|LR|MS|Mix))?(?:-(\d{4}))?$/i;
+
+// Labels that every segment of a take repeats at its start, such as the iXML take marker
+const TAKE_SOURCES = ['ixml', 'bext-description'];
+
+export class RecordingSessions {
+
+    /**
+     * Groups files that belong to one recording: by the iXML FILE_SET
+     * FAMILY_UID when present, otherwise by recorder file naming. Within a
+     * group, files with the same split number and bext TimeReference are
+     * tracks of the same segment; segments are ordered by both.
+     */
+    static group(files: SessionFile[]): RecordingSession[] {
+        const groups = new Map<string, { groupedBy: RecordingSession['groupedBy']; files: SessionFile[] }>();
+
+        files.forEach((file, index) => {
+            const familyUid = file.metadata ? RecorderMetadata.familyUid(file.metadata) : null;
+            const parsed = this.parseFileName(file.originalFileName);
+            const hasRecorderSuffix = parsed.track !== null || parsed.part > 0;
+
+            let key: string;
+            let groupedBy: RecordingSession['groupedBy'];
+            if (!file.metadata) {
+                key = `single:${index}`;
+                groupedBy = 'single';
+            } else if (familyUid) {
+                key = `uid:${familyUid}`;
+                groupedBy = 'file-set';
+            } else if (hasRecorderSuffix || files.some(other => other !== file && this.parseFileName(other.originalFileName).base.toLowerCase() === parsed.base.toLowerCase())) {
+                key = `name:${parsed.base.toLowerCase()}`;
+                groupedBy = 'file-name';
+            } else {
+                key = `single:${index}`;
+                groupedBy = 'single';
+            }
+
+            const group = groups.get(key) || { groupedBy, files: [] };
+            group.files.push(file);
+            groups.set(key, group);
+        });
+
+        return Array.from(groups.values()).map(group => this.buildSession(group.files, group.files.length > 1 ? group.groupedBy : 'single'));
+    }
+
+    static parseFileName(fileName: string): ParsedFileName {
+        const stem = path.basename(fileName, path.extname(fileName));
+        const match = RECORDER_FILE_NAME.exec(stem);
+
+        if (!match) {
+            return { base: stem, track: null, part: 0 };
+        }
+
+        return {
+            base: match[1],
+            track: match[2] || null,
+            part: match[3] ? parseInt(match[3], 10) : 0
+        };
+    }
+
+    /**
+     * Moves each file's markers by the start of its segment and combines
+     * them. Markers that several tracks carry at the same position, and take
+     * markers that every split part repeats at its start, are kept once.
+     */
+    static merge(session: RecordingSession, markersByFile: Map<SessionFile, Marker[]>): Marker[] {
+        const merged: Marker[] = [];
+        const takeLabels = new Set<string>();
+
+        session.segments.forEach((segment, index) => {
+            for (const file of segment.files) {
+                for (const marker of markersByFile.get(file) || []) {
+                    const isTakeMarker = marker.samplePosition === 0 && TAKE_SOURCES.includes(marker.source || '');
+                    if (isTakeMarker && index > 0 && takeLabels.has(marker.label)) continue;
+                    if (isTakeMarker) takeLabels.add(marker.label);
+
+                    // Segments are measured at the session rate; markers keep their own
+                    const offset = session.sampleRate
+                        ? Math.round(segment.offset * marker.sampleRate / session.sampleRate)
+                        : 0;
+
+                    merged.push({ ...marker, samplePosition: marker.samplePosition + offset });
+                }
+            }
+        });
+
+        return dedupeMarkers(merged).sort((a, b) => a.samplePosition - b.samplePosition);
+    }
+
+    /**
+     * Warnings about files that do not fit together: differing sample
+     * rates, tracks of different length, or split parts whose bext
+     * TimeReference does not continue where the previous part ended.
+     */
+    static check(session: RecordingSession): string[] {
+        const warnings: string[] = [];
+
+        for (const segment of session.segments) {
+            for (const file of segment.files) {
+                const rate = file.metadata?.format?.sampleRate;
+                if (session.sampleRate && rate && rate !== session.sampleRate) {
+                    warnings.push(`${file.originalFileName} is recorded at ${rate} Hz, the session at ${session.sampleRate} Hz`);
+                }
+
+                const duration = this.duration(file.metadata, session.sampleRate);
+                if (duration !== null && duration !== segment.duration) {
+                    warnings.push(`${file.originalFileName} is shorter than the other tracks of its segment`);
+                }
+            }
+        }
+
+        session.segments.slice(1).forEach((segment, index) => {
+            const previous = session.segments[index];
+            const start = this.timeReference(segment.files[0]);
+            const previousStart = this.timeReference(previous.files[0]);
+
+            // Allow one second of slack for recorders that restart the clock on a frame boundary
+            if (start !== null && previousStart !== null && session.sampleRate
+                && Math.abs(start - (previousStart + previous.duration)) > session.sampleRate) {
+                warnings.push(`${segment.files[0].originalFileName} does not continue where ${previous.files[0].originalFileName} ends`);
+            }
+        });
+
+        return warnings;
+    }
+
+    private static buildSession(files: SessionFile[], groupedBy: RecordingSession['groupedBy']): RecordingSession {
+        const sampleRate = files.find(file => file.metadata?.format?.sampleRate)?.metadata?.format?.sampleRate || null;
+        const bySegment = new Map<string, SessionFile[]>();
+
+        // Split number first, then recording start for file sets without numbered parts
+        const ordered = [...files].sort((a, b) =>
+            this.parseFileName(a.originalFileName).part - this.parseFileName(b.originalFileName).part
+            || (this.timeReference(a) || 0) - (this.timeReference(b) || 0)
+            || a.originalFileName.localeCompare(b.originalFileName)
+        );
+
+        for (const file of ordered) {
+            const key = `${this.parseFileName(file.originalFileName).part}:${this.timeReference(file) ?? ''}`;
+            const segmentFiles = bySegment.get(key) || [];
+            segmentFiles.push(file);
+            bySegment.set(key, segmentFiles);
+        }
+
+        let offset = 0;
+        const segments = Array.from(bySegment.values()).map(segmentFiles => {
+            // Tracks of one segment should be equally long; the longest decides where the next part starts
+            const duration = Math.max(0, ...segmentFiles.map(file => this.duration(file.metadata, sampleRate) || 0));
+            const segment = { files: segmentFiles, offset, duration };
+            offset += duration;
+            return segment;
+        });
+
+        const first = this.parseFileName(segments[0].files[0].originalFileName);
+        const name = groupedBy === 'single'
+            ? path.basename(files[0].originalFileName, path.extname(files[0].originalFileName))
+            : first.base;
+
+        return { name, groupedBy, sampleRate, segments };
+    }
+
+    private static duration(metadata: BwfMetadata | null, sampleRate: number | null): number | null {
+        const format = metadata?.format;
+        if (!metadata || !format || !format.blockAlign || metadata.dataSize === null) return null;
+
+        const frames = Math.floor(metadata.dataSize / format.blockAlign);
+        return sampleRate && format.sampleRate && format.sampleRate !== sampleRate
+            ? Math.round(frames * sampleRate / format.sampleRate)
+            : frames;
+    }
+
+    private static timeReference(file: SessionFile): number | null {
+        return file.metadata?.bext ? file.metadata.bext.timeReference : null;
+    }
+}
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { Logger } from './logger';
+
+export interface StoredResult {
+    id: string;
+    // Directory the conversion writes its output files into
+    directory: string;
+}
+
+// 128 random bits, hex encoded
+const ID_PATTERN = /^[0-9a-f]{32}$/;
+
+/**
+ * Keeps every conversion's output in its own directory named by a random ID,
+ * so equal file names from different uploads never collide and results
+ * cannot be guessed. Directories older than the TTL are removed by a
+ * periodic cleanup.
+ */
+export class ResultStore {
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(private readonly baseDir: string, private readonly ttlMs: number, private readonly logger: Logger = new Logger()) {}
+
+    create(): StoredResult {
+        const id = randomBytes(16).toString('hex');
+        const directory = path.join(this.baseDir, id);
+
+        fs.mkdirSync(directory, { recursive: true });
+        return { id, directory };
+    }
+
+    /**
+     * Path of a stored file, or null when the ID or name is malformed, the
+     * result has expired or the file does not exist.
+     */
+    resolve(id: string, fileName: string): string | null {
+        // Only plain names inside a result directory; no separators or dot segments
+        if (!ID_PATTERN.test(id) || path.basename(fileName) !== fileName || fileName.startsWith('.')) {
+            return null;
+        }
+
+        const directory = path.join(this.baseDir, id);
+        const filePath = path.join(directory, fileName);
+
+        try {
+            if (this.isExpired(fs.statSync(directory)) || !fs.statSync(filePath).isFile()) {
+                return null;
+            }
+        } catch (error) {
+            return null;
+        }
+
+        return filePath;
+    }
+
+    remove(id: string): void {
+        if (ID_PATTERN.test(id)) {
+            fs.rmSync(path.join(this.baseDir, id), { recursive: true, force: true });
+        }
+    }
+
+    startCleanup(intervalMs: number): void {
+        this.cleanup();
+        this.timer = setInterval(() => this.cleanup(), intervalMs);
+        // Never keep the process alive just for the cleanup
+        this.timer.unref();
+    }
+
+    stopCleanup(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    cleanup(): number {
+        let removed = 0;
+        let entries: fs.Dirent[];
+
+        try {
+            entries = fs.readdirSync(this.baseDir, { withFileTypes: true });
+        } catch (error) {
+            // Nothing stored yet
+            return removed;
+        }
+
+        for (const entry of entries) {
+            if (!entry.isDirectory() || !ID_PATTERN.test(entry.name)) continue;
+
+            try {
+                if (this.isExpired(fs.statSync(path.join(this.baseDir, entry.name)))) {
+                    this.remove(entry.name);
+                    removed++;
+                }
+            } catch (error) {
+                this.logger.error('Result cleanup failed', { resultId: entry.name, error });
+            }
+        }
+
+        if (removed > 0) {
+            this.logger.info('Removed expired results', { count: removed });
+        }
+        return removed;
+    }
+
+    private isExpired(stat: fs.Stats): boolean {
+        // Birth time is not available on every filesystem; ctime is when the output was written
+        return Date.now() - stat.ctimeMs > this.ttlMs;
+    }
+}
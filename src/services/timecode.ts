@@ -0,0 +1,171 @@
+import { BwfMetadata } from './bwf-reader';
+import { RequestError } from './errors';
+import { RecorderMetadata } from './recorder-metadata';
+
+export type TimecodeRate = '23.976' | '24' | '25' | '29.97' | '29.97df' | '30';
+
+export interface TimecodeOptions {
+    // shift moves markers onto the time-of-day timeline; prefix keeps positions and prepends the time to labels
+    placement: 'shift' | 'prefix';
+    style: 'time-of-day' | 'smpte';
+    // Defaults to the rate stamped in the iXML chunk, then 25 fps
+    frameRate?: TimecodeRate;
+}
+
+interface RateDefinition {
+    // Exact frame rate as a fraction, e.g. 30000/1001 for 29.97
+    numerator: number;
+    denominator: number;
+    // Frames counted per timecode second
+    nominal: number;
+    dropFrame: boolean;
+}
+
+const RATES: Record<TimecodeRate, RateDefinition> = {
+    '23.976': { numerator: 24000, denominator: 1001, nominal: 24, dropFrame: false },
+    '24': { numerator: 24, denominator: 1, nominal: 24, dropFrame: false },
+    '25': { numerator: 25, denominator: 1, nominal: 25, dropFrame: false },
+    '29.97': { numerator: 30000, denominator: 1001, nominal: 30, dropFrame: false },
+    '29.97df': { numerator: 30000, denominator: 1001, nominal: 30, dropFrame: true },
+    '30': { numerator: 30, denominator: 1, nominal: 30, dropFrame: false }
+};
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export class Timecode {
+
+    static readonly DEFAULT_RATE: TimecodeRate = '25';
+
+    static isTimecodeRate(value: unknown): value is TimecodeRate {
+        return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RATES, value);
+    }
+
+    static get rates(): TimecodeRate[] {
+        // Object.keys would list the integer rates first
+        return ['23.976', '24', '25', '29.97', '29.97df', '30'];
+    }
+
+    /**
+     * Validates the timecode mode (none/shift/prefix), style
+     * (time-of-day/smpte) and frame rate given by a request or the CLI.
+     */
+    static parseOptions(placement: unknown, style: unknown, frameRate: unknown): TimecodeOptions | undefined {
+        if (!placement || placement === 'none') {
+            return undefined;
+        }
+        if (placement !== 'shift' && placement !== 'prefix') {
+            throw new RequestError('INVALID_TIMECODE', 'Unsupported timecode mode. Use one of: none, shift, prefix', { field: 'timecode', value: placement });
+        }
+
+        const resolvedStyle = style || 'time-of-day';
+        if (resolvedStyle !== 'time-of-day' && resolvedStyle !== 'smpte') {
+            throw new RequestError('INVALID_TIMECODE', 'Unsupported timecode style. Use one of: time-of-day, smpte', { field: 'timecodeStyle', value: resolvedStyle });
+        }
+
+        if (frameRate && !this.isTimecodeRate(frameRate)) {
+            throw new RequestError('INVALID_TIMECODE', `Unsupported frame rate. Use one of: ${this.rates.join(', ')}`, { field: 'frameRate', value: frameRate });
+        }
+
+        return { placement, style: resolvedStyle, frameRate: frameRate ? frameRate as TimecodeRate : undefined };
+    }
+
+    static isDropFrame(rate: TimecodeRate): boolean {
+        return RATES[rate].dropFrame;
+    }
+
+    /**
+     * Start of the recording in samples since midnight. Uses the bext
+     * TimeReference, or the OriginationTime when a recorder leaves it at 0.
+     */
+    static startSample(metadata: BwfMetadata): number | null {
+        if (!metadata.bext || !metadata.format) return null;
+
+        if (metadata.bext.timeReference > 0) {
+            return metadata.bext.timeReference;
+        }
+
+        const match = /^(\d{2})[:\-.](\d{2})[:\-.](\d{2})$/.exec(metadata.bext.originationTime);
+        if (!match) return null;
+
+        const seconds = parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+        return seconds * metadata.format.sampleRate;
+    }
+
+    /**
+     * Reads the timecode rate the recorder stamped into the iXML chunk
+     * (`<TIMECODE_RATE>` plus `<TIMECODE_FLAG>` DF/NDF).
+     */
+    static rateFromIxml(metadata: BwfMetadata): TimecodeRate | null {
+        const stamped = RecorderMetadata.timecodeRate(metadata);
+        const rateMatch = stamped ? /^(\d+)(?:\s*\/\s*(\d+))?$/.exec(stamped.rate) : null;
+        if (!stamped || !rateMatch) return null;
+
+        const dropFrame = stamped.flag?.toUpperCase() === 'DF';
+        const fps = parseInt(rateMatch[1], 10) / (rateMatch[2] ? parseInt(rateMatch[2], 10) : 1);
+
+        return this.rateFromFps(fps, dropFrame);
+    }
+
+    static rateFromFps(fps: number, dropFrame: boolean): TimecodeRate | null {
+        for (const [rate, definition] of Object.entries(RATES) as [TimecodeRate, RateDefinition][]) {
+            if (Math.abs(fps - definition.numerator / definition.denominator) < 0.01 && definition.dropFrame === dropFrame) {
+                return rate;
+            }
+        }
+
+        // 29.97 is the only rate with both flavours; other rates ignore a stray DF flag
+        return dropFrame ? this.rateFromFps(fps, false) : null;
+    }
+
+    /**
+     * Number of whole frames elapsed at a sample position. Timecode names the
+     * frame that contains the sample, so this rounds down.
+     */
+    static toFrameCount(samples: number, sampleRate: number, rate: TimecodeRate): number {
+        const { numerator, denominator } = RATES[rate];
+        return Math.floor(samples * numerator / (sampleRate * denominator));
+    }
+
+    static formatSamples(samples: number, sampleRate: number, rate: TimecodeRate): string {
+        return this.formatFrameCount(this.toFrameCount(samples, sampleRate, rate), rate);
+    }
+
+    static formatFrameCount(frameCount: number, rate: TimecodeRate): string {
+        const { nominal, dropFrame } = RATES[rate];
+        let frames = frameCount;
+
+        if (dropFrame) {
+            // Frame numbers 00 and 01 are skipped every minute except every tenth minute
+            const framesPerTenMinutes = nominal * 600 - 18;
+            const framesPerMinute = nominal * 60 - 2;
+            const tenMinuteBlocks = Math.floor(frames / framesPerTenMinutes);
+            const remainder = frames % framesPerTenMinutes;
+
+            frames += 18 * tenMinuteBlocks;
+            if (remainder > 1) {
+                frames += 2 * Math.floor((remainder - 2) / framesPerMinute);
+            }
+        }
+
+        const hours = Math.floor(frames / (nominal * 3600)) % 24;
+        const minutes = Math.floor(frames / (nominal * 60)) % 60;
+        const seconds = Math.floor(frames / nominal) % 60;
+        const frame = frames % nominal;
+
+        return `${this.pad(hours)}:${this.pad(minutes)}:${this.pad(seconds)}${dropFrame ? ';' : ':'}${this.pad(frame)}`;
+    }
+
+    static formatTimeOfDay(samples: number, sampleRate: number): string {
+        const totalMs = Math.round(samples * 1000 / sampleRate) % (SECONDS_PER_DAY * 1000);
+        const hours = Math.floor(totalMs / 3600000);
+        const minutes = Math.floor((totalMs % 3600000) / 60000);
+        const seconds = Math.floor((totalMs % 60000) / 1000);
+        const ms = totalMs % 1000;
+
+        return `${this.pad(hours)}:${this.pad(minutes)}:${this.pad(seconds)}.${String(ms).padStart(3, '0')}`;
+    }
+
+    private static pad(value: number): string {
+        return String(value).padStart(2, '0');
+    }
+}
@@ -0,0 +1,206 @@
+import fs from 'fs';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { randomUUID } from 'crypto';
+import { BwfMetadata, BwfReader } from './bwf-reader';
+import { ExtractionError } from './errors';
+import { ConversionOptions, ConversionResult, Marker, MarkerConverter } from './marker-converter';
+import { DetectionResult, MarkerDetectors } from './marker-detectors';
+import { MarkerExtractor } from './marker-extractor';
+import { RecordingSession, RecordingSessions, SessionFile } from './recording-session';
+
+const execFileAsync = promisify(execFile);
+// Directory for the XML reports of bwfmetaedit while they are parsed
+const TEMP_DIR = 'temp';
+// A version check must not keep the health check waiting
+const BWFMETAEDIT_VERSION_TIMEOUT_MS = 5000;
+
+export interface ProcessOptions extends ConversionOptions {
+    // Shell out to bwfmetaedit when the native reader finds no cue markers
+    bwfMetaEditFallback?: boolean;
+    // The file is a chunk skeleton without the audio data
+    audioOmitted?: boolean;
+}
+
+export interface SessionResult extends ConversionResult {
+    session: {
+        name: string;
+        groupedBy: RecordingSession['groupedBy'];
+        files: SessionFileResult[];
+    };
+}
+
+export interface SessionFileResult {
+    originalFile: string;
+    // 1-based position of the file's segment in the joined recording
+    segment: number;
+    // Start of the segment within the joined recording
+    offsetSeconds: number;
+    markerCount: number;
+    // null when the file has no markers of its own
+    detector: string | null;
+}
+
+/**
+ * The extraction pipeline shared by the web server and the CLI: read the
+ * WAV's chunks, optionally fall back to bwfmetaedit, and write the output.
+ */
+export class WavProcessor {
+
+    static async process(wavFilePath: string, originalFileName: string, options: ProcessOptions = {}): Promise<ConversionResult> {
+        const { metadata, detection } = await this.detectMarkers(wavFilePath, options);
+
+        // Convert the markers to the chosen format (use original filename for output naming)
+        return MarkerConverter.writeLabels(detection.markers, metadata, originalFileName, options, MarkerConverter.summarize(detection));
+    }
+
+    /**
+     * Extracts the markers of every file in a recording session, moves them
+     * to their segment's place in the joined recording and writes a single
+     * output named after the session. Files without markers only contribute
+     * their duration; the session fails if none of them has markers.
+     */
+    static async processSession(session: RecordingSession, options: ProcessOptions = {}): Promise<SessionResult> {
+        const markersByFile = new Map<SessionFile, Marker[]>();
+        const detections: DetectionResult[] = [];
+        const files: SessionFileResult[] = [];
+        const warnings = RecordingSessions.check(session);
+        let firstError: ExtractionError | null = null;
+
+        for (const [index, segment] of session.segments.entries()) {
+            for (const file of segment.files) {
+                const offsetSeconds = session.sampleRate ? segment.offset / session.sampleRate : 0;
+
+                try {
+                    const { detection } = await this.detectMarkers(file.filePath, options, file.metadata);
+                    markersByFile.set(file, detection.markers);
+                    detections.push(detection);
+                    warnings.push(...detection.warnings.map(warning => `${file.originalFileName}: ${warning}`));
+                    files.push({ originalFile: file.originalFileName, segment: index + 1, offsetSeconds, markerCount: detection.markers.length, detector: detection.detector });
+                } catch (error) {
+                    const extractionError = ExtractionError.from(error);
+                    // Other tracks usually carry the markers; a broken file would shift every later segment
+                    if (extractionError.code !== 'NO_MARKERS_FOUND' && extractionError.code !== 'NO_BWF_DATA') {
+                        throw new ExtractionError(extractionError.code, { ...extractionError.details, file: file.originalFileName }, extractionError.message);
+                    }
+
+                    firstError = firstError || extractionError;
+                    files.push({ originalFile: file.originalFileName, segment: index + 1, offsetSeconds, markerCount: 0, detector: null });
+                }
+            }
+        }
+
+        if (detections.length === 0) {
+            throw firstError || new ExtractionError('NO_MARKERS_FOUND');
+        }
+
+        const markers = RecordingSessions.merge(session, markersByFile);
+        const first = session.segments[0].files[0];
+        const firstMetadata = first.metadata || await BwfReader.readFile(first.filePath);
+        // Chapter formats end the last chapter with the joined recording, not the first file
+        const last = session.segments[session.segments.length - 1];
+        const metadata = firstMetadata.format && session.sampleRate === firstMetadata.format.sampleRate
+            ? { ...firstMetadata, dataSize: (last.offset + last.duration) * firstMetadata.format.blockAlign }
+            : firstMetadata;
+        const outputName = `${session.name}${path.extname(first.originalFileName)}`;
+
+        // Report the first file whose markers came from a primary detector, and every other detector as a supplement
+        const primary = detections.find(result => !MarkerDetectors.all.some(detector => detector.name === result.detector && detector.supplementary)) || detections[0];
+        const detection = {
+            ...MarkerConverter.summarize(primary),
+            confidence: Math.min(...detections.map(result => result.confidence)),
+            warnings: detections.flatMap(result => result.warnings),
+            supplements: Array.from(new Set(detections.flatMap(result => [result.detector, ...result.supplements])))
+                .filter(name => name !== primary.detector)
+        };
+
+        const result = MarkerConverter.writeLabels(markers, metadata, outputName, options, detection, warnings);
+        return { ...result, session: { name: session.name, groupedBy: session.groupedBy, files } };
+    }
+
+    /**
+     * Reads the WAV's chunks and runs the marker detectors, falling back to
+     * bwfmetaedit when enabled and none of them found markers.
+     */
+    private static async detectMarkers(wavFilePath: string, options: ProcessOptions, metadata?: BwfMetadata | null): Promise<{ metadata: BwfMetadata; detection: DetectionResult }> {
+        // Read fmt, bext, iXML, smpl, cue and adtl chunks directly from the WAV file
+        const fileMetadata = metadata || await BwfReader.readFile(wavFilePath, { audioOmitted: options.audioOmitted });
+
+        const detection = await MarkerExtractor.detect(fileMetadata, {
+            ...options,
+            fallback: options.bwfMetaEditFallback ? () => this.detectWithBwfMetaEdit(wavFilePath, fileMetadata, options) : undefined
+        });
+        return { metadata: fileMetadata, detection };
+    }
+
+    /**
+     * Runs bwfmetaedit on a file on disk and detects markers in its XML;
+     * the fallback for files the native detectors find nothing in.
+     */
+    static async detectWithBwfMetaEdit(wavFilePath: string, metadata: BwfMetadata, options: ConversionOptions): Promise<DetectionResult> {
+        // A unique name per run; extractions run concurrently in the job queue
+        const xmlFilePath = path.join(TEMP_DIR, `${randomUUID()}-metadata.xml`);
+
+        try {
+            // Extract BWF metadata using bwfmetaedit
+            await this.extractBwfMetadata(wavFilePath, xmlFilePath, options);
+            return await MarkerConverter.detectXmlMarkers(xmlFilePath, metadata, options);
+        } finally {
+            // Clean up temporary XML file, also when bwfmetaedit failed halfway
+            fs.rmSync(xmlFilePath, { force: true });
+        }
+    }
+
+    /**
+     * Version reported by the installed bwfmetaedit, for the health check.
+     * Fails with BWFMETAEDIT_UNAVAILABLE when it is not installed.
+     */
+    static async bwfMetaEditVersion(): Promise<string> {
+        const { stdout } = await this.runBwfMetaEdit(['--version'], BWFMETAEDIT_VERSION_TIMEOUT_MS);
+        return stdout.trim();
+    }
+
+    private static async extractBwfMetadata(wavFilePath: string, xmlFilePath: string, options: ConversionOptions): Promise<void> {
+        // Ensure temp directory exists
+        if (!fs.existsSync(TEMP_DIR)) {
+            fs.mkdirSync(TEMP_DIR, { recursive: true });
+        }
+
+        options.log?.(`Processing file: ${wavFilePath}`);
+
+        if (!fs.existsSync(wavFilePath)) {
+            throw new ExtractionError('FILE_NOT_FOUND');
+        }
+
+        // Use bwfmetaedit to extract metadata as XML
+        await this.runBwfMetaEdit([`--out-xml=${xmlFilePath}`, wavFilePath]);
+
+        if (!fs.existsSync(xmlFilePath)) {
+            throw new ExtractionError('NO_BWF_DATA');
+        }
+    }
+
+    private static async runBwfMetaEdit(args: string[], timeoutMs: number = 0): Promise<{ stdout: string; stderr: string }> {
+        try {
+            // Use execFile to avoid shell encoding issues with special characters
+            return await execFileAsync('bwfmetaedit', args, {
+                encoding: 'utf8',
+                timeout: timeoutMs,
+                env: { ...process.env, LANG: 'en_US.UTF-8', LC_ALL: 'en_US.UTF-8' }
+            });
+        } catch (error) {
+            const execError = error as { code?: string | number; stderr?: string };
+
+            // execFile reports a missing executable as ENOENT and a failed run with its exit code
+            if (execError.code === 'ENOENT') {
+                throw new ExtractionError('BWFMETAEDIT_UNAVAILABLE');
+            }
+
+            throw new ExtractionError('BWFMETAEDIT_FAILED', {
+                exitCode: typeof execError.code === 'number' ? execError.code : null,
+                stderr: (execError.stderr || '').trim()
+            });
+        }
+    }
+}
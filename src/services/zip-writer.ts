@@ -0,0 +1,100 @@
+import zlib from 'zlib';
+
+export interface ZipEntry {
+    name: string;
+    data: Buffer;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+// General purpose flag bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+const METHOD_DEFLATE = 8;
+
+export class ZipWriter {
+
+    /**
+     * Builds a ZIP archive in memory. Meant for small files such as label
+     * exports; entries are deflated and named as given.
+     */
+    static create(entries: ZipEntry[]): Buffer {
+        const parts: Buffer[] = [];
+        const centralDirectory: Buffer[] = [];
+        const { time, date } = this.dosDateTime(new Date());
+        let offset = 0;
+
+        for (const entry of entries) {
+            const name = Buffer.from(entry.name, 'utf8');
+            const compressed = zlib.deflateRawSync(entry.data);
+            const crc = this.crc32(entry.data);
+
+            const local = Buffer.alloc(30);
+            local.writeUInt32LE(0x04034B50, 0);
+            local.writeUInt16LE(20, 4);
+            local.writeUInt16LE(UTF8_FLAG, 6);
+            local.writeUInt16LE(METHOD_DEFLATE, 8);
+            local.writeUInt16LE(time, 10);
+            local.writeUInt16LE(date, 12);
+            local.writeUInt32LE(crc, 14);
+            local.writeUInt32LE(compressed.length, 18);
+            local.writeUInt32LE(entry.data.length, 22);
+            local.writeUInt16LE(name.length, 26);
+            local.writeUInt16LE(0, 28);
+
+            const central = Buffer.alloc(46);
+            central.writeUInt32LE(0x02014B50, 0);
+            central.writeUInt16LE(20, 4);
+            central.writeUInt16LE(20, 6);
+            central.writeUInt16LE(UTF8_FLAG, 8);
+            central.writeUInt16LE(METHOD_DEFLATE, 10);
+            central.writeUInt16LE(time, 12);
+            central.writeUInt16LE(date, 14);
+            central.writeUInt32LE(crc, 16);
+            central.writeUInt32LE(compressed.length, 20);
+            central.writeUInt32LE(entry.data.length, 24);
+            central.writeUInt16LE(name.length, 28);
+            // Extra field, comment, disk number, attributes left at 0
+            central.writeUInt32LE(offset, 42);
+
+            parts.push(local, name, compressed);
+            centralDirectory.push(central, name);
+            offset += local.length + name.length + compressed.length;
+        }
+
+        const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054B50, 0);
+        end.writeUInt16LE(entries.length, 8);
+        end.writeUInt16LE(entries.length, 10);
+        end.writeUInt32LE(centralSize, 12);
+        end.writeUInt32LE(offset, 16);
+
+        return Buffer.concat([...parts, ...centralDirectory, end]);
+    }
+
+    private static crc32(data: Buffer): number {
+        let crc = 0xFFFFFFFF;
+        for (let i = 0; i < data.length; i++) {
+            crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+        }
+        return (crc ^ 0xFFFFFFFF) >>> 0;
+    }
+
+    private static dosDateTime(date: Date): { time: number; date: number } {
+        return {
+            time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+            date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+        };
+    }
+}